@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { BodySelection } from "@/lib/core/BodySelection";
+import { useBodySelection } from "@/lib/hooks/useBodySelection";
+import { AlignMode, BodyProperties, BodyPropertyChanges } from "@/lib/types";
+
+// Ways to line up the selected bodies, in display order
+const ALIGN_MODES: { label: string; mode: AlignMode }[] = [
+  { label: "Left", mode: "left" },
+  { label: "Center", mode: "centerX" },
+  { label: "Right", mode: "right" },
+  { label: "Top", mode: "top" },
+  { label: "Middle", mode: "centerY" },
+  { label: "Bottom", mode: "bottom" },
+];
+
+// Rounds a live value so the fields do not flicker with tiny changes
+function round(value: number) {
+  return Number.isFinite(value) ? String(Number(value.toFixed(3))) : "";
+}
+
+// Expands a hex colour to the #rrggbb form colour pickers need
+function toHexColor(color: string) {
+  if (/^#[0-9a-f]{6}$/i.test(color)) {
+    return color;
+  }
+  if (/^#[0-9a-f]{3}$/i.test(color)) {
+    return "#" + [...color.slice(1)].map((digit) => digit + digit).join("");
+  }
+  return null;
+}
+
+type NumberFieldProps = {
+  label: string;
+  value: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+};
+
+// Shows a live value, and keeps what is typed until Enter is pressed or the
+// field loses focus
+function NumberField({
+  label,
+  value,
+  step = 1,
+  disabled,
+  onChange,
+}: NumberFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== "" && Number.isFinite(+draft)) {
+      onChange(+draft);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={draft ?? round(value)}
+        placeholder={Number.isFinite(value) ? undefined : "∞"}
+        disabled={disabled}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            commit();
+          }
+        }}
+        className="w-24 rounded border bg-background px-1"
+      />
+    </label>
+  );
+}
+
+type ColorFieldProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+// Picks a colour, or edits it as text when it is not a hex colour
+function ColorField({ label, value, onChange }: ColorFieldProps) {
+  const hex = toHexColor(value);
+
+  return (
+    <label className="flex items-center justify-between gap-2">
+      {label}
+      {hex ? (
+        <input
+          type="color"
+          value={hex}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      ) : (
+        <input
+          key={value}
+          type="text"
+          defaultValue={value}
+          onBlur={(event) => onChange(event.target.value)}
+          className="w-24 rounded border bg-background px-1"
+        />
+      )}
+    </label>
+  );
+}
+
+type BodyFieldsProps = {
+  body: BodyProperties;
+  selection: BodySelection;
+};
+
+// Properties of one selected body
+function BodyFields({ body, selection }: BodyFieldsProps) {
+  const update = (changes: BodyPropertyChanges) =>
+    selection.update(body.id, changes);
+
+  return (
+    <fieldset className="flex flex-col gap-1 rounded border p-2">
+      <legend className="px-1 font-semibold">
+        #{body.id} {body.label}
+      </legend>
+      <NumberField
+        label="X"
+        value={body.position.x}
+        onChange={(x) => update({ position: { ...body.position, x: x } })}
+      />
+      <NumberField
+        label="Y"
+        value={body.position.y}
+        onChange={(y) => update({ position: { ...body.position, y: y } })}
+      />
+      <NumberField
+        label="Angle (°)"
+        value={(body.angle * 180) / Math.PI}
+        onChange={(degrees) => update({ angle: (degrees * Math.PI) / 180 })}
+      />
+      <NumberField
+        label="Velocity X"
+        value={body.velocity.x}
+        step={0.1}
+        disabled={body.isStatic}
+        onChange={(x) => update({ velocity: { ...body.velocity, x: x } })}
+      />
+      <NumberField
+        label="Velocity Y"
+        value={body.velocity.y}
+        step={0.1}
+        disabled={body.isStatic}
+        onChange={(y) => update({ velocity: { ...body.velocity, y: y } })}
+      />
+      <NumberField
+        label="Mass"
+        value={body.mass}
+        step={0.1}
+        disabled={body.isStatic}
+        onChange={(mass) => mass > 0 && update({ mass: mass })}
+      />
+      <NumberField
+        label="Density"
+        value={body.density}
+        step={0.001}
+        disabled={body.isStatic}
+        onChange={(density) => density > 0 && update({ density: density })}
+      />
+      <NumberField
+        label="Friction"
+        value={body.friction}
+        step={0.05}
+        onChange={(friction) => update({ friction: friction })}
+      />
+      <NumberField
+        label="Restitution"
+        value={body.restitution}
+        step={0.05}
+        onChange={(restitution) => update({ restitution: restitution })}
+      />
+      <label className="flex items-center justify-between gap-2">
+        Static
+        <input
+          type="checkbox"
+          checked={body.isStatic}
+          onChange={(event) => update({ isStatic: event.target.checked })}
+        />
+      </label>
+      <ColorField
+        label="Fill"
+        value={body.fillStyle}
+        onChange={(fillStyle) => update({ fillStyle: fillStyle })}
+      />
+      <ColorField
+        label="Border"
+        value={body.strokeStyle}
+        onChange={(strokeStyle) => update({ strokeStyle: strokeStyle })}
+      />
+    </fieldset>
+  );
+}
+
+type BodyInspectorProps = {
+  selection: BodySelection;
+};
+
+// Side panel showing and editing the bodies picked with the select tool
+export default function BodyInspector({ selection }: BodyInspectorProps) {
+  const bodies = useBodySelection(selection);
+  const allStatic = bodies.every((body) => body.isStatic);
+
+  if (bodies.length === 0) {
+    return (
+      <aside className="w-64 text-sm">
+        Pick bodies with the Select tool (drag a rectangle to pick several, hold
+        Shift to add) to inspect and edit them.
+      </aside>
+    );
+  }
+
+  return (
+    <aside className="flex max-h-[80vh] w-64 flex-col gap-2 overflow-y-auto text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{bodies.length} selected</span>
+        <button
+          type="button"
+          className="rounded border px-2"
+          onClick={() => selection.clear()}
+        >
+          Deselect
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <button
+          type="button"
+          className="rounded border px-2"
+          onClick={() => selection.remove()}
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          className="rounded border px-2"
+          onClick={() => selection.duplicate()}
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          className="rounded border px-2"
+          onClick={() => selection.setStatic(!allStatic)}
+        >
+          Make {allStatic ? "dynamic" : "static"}
+        </button>
+      </div>
+      {bodies.length > 1 && (
+        <div className="flex flex-wrap items-center gap-1">
+          Align
+          {ALIGN_MODES.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              className="rounded border px-2"
+              onClick={() => selection.align(option.mode)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {bodies.map((body) => (
+        <BodyFields key={body.id} body={body} selection={selection} />
+      ))}
+    </aside>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ActionMap } from "@/lib/core/ActionMap";
+import { useActionMap } from "@/lib/hooks/useActionMap";
+import { ControlAction, InputBinding } from "@/lib/types";
+import { LocalStorage } from "@/lib/utils/LocalStorage";
+
+// Names of the actions, in display order
+const ACTION_LABELS: Record<ControlAction, string> = {
+  repel: "Repel (or aim the slingshot)",
+  spawn: "Spawn a body",
+  deleteAll: "Delete the bodies under the pointer",
+  pan: "Pan the camera",
+  delete: "Delete a body",
+  pause: "Pause / resume",
+  step: "Step (while paused)",
+  slower: "Slower",
+  faster: "Faster",
+  resetSpeed: "Normal speed",
+  follow: "Follow the body under the pointer",
+  fitAll: "Fit all bodies in view",
+  resetCamera: "Reset the camera",
+  undo: "Undo the last shot",
+  rewind: "Rewind (hold)",
+  cancelAim: "Cancel the slingshot aim",
+  restart: "Restart the level",
+};
+
+// Waits for the next gamepad button pressed, and reports it
+function useGamepadCapture(
+  active: boolean,
+  onCapture: (binding: InputBinding) => void,
+) {
+  useEffect(() => {
+    if (!active || typeof navigator.getGamepads !== "function") {
+      return;
+    }
+
+    // Buttons already held when the capture starts are ignored
+    let held: Set<string> | null = null;
+    let frameRequestId = requestAnimationFrame(function poll() {
+      const pressed = new Set<string>();
+      for (const gamepad of navigator.getGamepads()) {
+        gamepad?.buttons.forEach((button, index) => {
+          if (button.pressed) {
+            pressed.add(`${gamepad.index}:${index}`);
+          }
+        });
+      }
+
+      const newlyPressed = [...pressed].find((button) => !held?.has(button));
+      if (held && newlyPressed) {
+        onCapture({
+          device: "gamepad",
+          button: Number(newlyPressed.split(":")[1]),
+        });
+        return;
+      }
+
+      held = pressed;
+      frameRequestId = requestAnimationFrame(poll);
+    });
+
+    return () => cancelAnimationFrame(frameRequestId);
+  }, [active, onCapture]);
+}
+
+export default function ControlsSettings() {
+  const [actionMap] = useState(() => new ActionMap(new LocalStorage()));
+  const bindings = useActionMap(actionMap);
+  // Action waiting for an input to bind, if any
+  const [capturing, setCapturing] = useState<ControlAction | null>(null);
+
+  const conflicts = ActionMap.findConflicts(bindings);
+  const isConflicting = (binding: InputBinding) =>
+    conflicts.some((conflict) =>
+      ActionMap.isSameBinding(conflict.binding, binding),
+    );
+
+  // Adds the captured input to the action, unless it is already bound to it
+  const bind = useCallback(
+    (binding: InputBinding) => {
+      if (
+        capturing &&
+        !actionMap
+          .getBindings(capturing)
+          .some((existing) => ActionMap.isSameBinding(existing, binding))
+      ) {
+        actionMap.setBindings(capturing, [
+          ...actionMap.getBindings(capturing),
+          binding,
+        ]);
+      }
+      setCapturing(null);
+    },
+    [actionMap, capturing],
+  );
+
+  // Capture the next key pressed
+  useEffect(() => {
+    if (!capturing) {
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Ctrl alone is a modifier, not a binding
+      if (event.key === "Control") {
+        return;
+      }
+      event.preventDefault();
+      bind({
+        device: "keyboard",
+        key: ActionMap.normalizeKey(event.key),
+        ctrl: event.ctrlKey || undefined,
+      });
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [bind, capturing]);
+
+  // Capture the next gamepad button pressed
+  useGamepadCapture(capturing !== null, bind);
+
+  return (
+    <div className="flex w-full max-w-2xl flex-col gap-4">
+      {conflicts.length > 0 && (
+        <div role="alert" className="rounded border border-red-500 p-3">
+          <p className="font-semibold text-red-500">Conflicting bindings</p>
+          <ul className="text-sm">
+            {conflicts.map((conflict) => (
+              <li key={ActionMap.describe(conflict.binding)}>
+                {ActionMap.describe(conflict.binding)} is bound to{" "}
+                {conflict.actions
+                  .map((action) => ACTION_LABELS[action])
+                  .join(", ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <table className="text-left text-sm">
+        <thead>
+          <tr>
+            <th className="pr-4">Action</th>
+            <th className="pr-4">Bindings</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(ACTION_LABELS) as ControlAction[]).map((action) => (
+            <tr key={action} className="align-top">
+              <td className="py-1 pr-4">{ACTION_LABELS[action]}</td>
+              <td className="py-1 pr-4">
+                <div className="flex flex-wrap gap-1">
+                  {bindings[action].map((binding, index) => (
+                    <span
+                      key={index}
+                      className={`rounded border px-2 ${
+                        isConflicting(binding)
+                          ? "border-red-500 text-red-500"
+                          : ""
+                      }`}
+                    >
+                      {ActionMap.describe(binding)}{" "}
+                      <button
+                        type="button"
+                        aria-label={`Remove ${ActionMap.describe(binding)}`}
+                        onClick={() =>
+                          actionMap.setBindings(
+                            action,
+                            bindings[action].filter(
+                              (_, other) => other !== index,
+                            ),
+                          )
+                        }
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  {bindings[action].length === 0 && <span>Unbound</span>}
+                </div>
+              </td>
+              <td className="flex gap-2 py-1">
+                {capturing === action ? (
+                  <>
+                    <button
+                      type="button"
+                      className="rounded border px-2"
+                      // Clicking here binds the mouse button pressed
+                      onMouseDown={(event) =>
+                        bind({
+                          device: "mouse",
+                          button: event.button,
+                          ctrl: event.ctrlKey || undefined,
+                        })
+                      }
+                      onContextMenu={(event) => event.preventDefault()}
+                    >
+                      Press a key, a gamepad button, or click here
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded border px-2"
+                      onClick={() => setCapturing(null)}
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      className="rounded border px-2"
+                      onClick={() => setCapturing(action)}
+                    >
+                      Add
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded border px-2"
+                      onClick={() => actionMap.reset(action)}
+                    >
+                      Reset
+                    </button>
+                  </>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button
+        type="button"
+        className="self-start rounded border px-3 py-1"
+        onClick={() => actionMap.reset()}
+      >
+        Reset all bindings
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { GameManager } from "@/lib/core/GameManager";
+import { useGameState } from "@/lib/hooks/useGameState";
+import { GameMode } from "@/lib/types";
+
+// Modes offered to the player
+const GAME_MODES: { label: string; mode: GameMode }[] = [
+  { label: "Classic", mode: { type: "classic" } },
+  { label: "Countdown (60 s)", mode: { type: "countdown", timeLimit: 60000 } },
+  { label: "Time Attack", mode: { type: "timeAttack" } },
+  {
+    label: "Limited Attempts (10)",
+    mode: { type: "limitedAttempts", maxAttempts: 10 },
+  },
+  { label: "Zen", mode: { type: "zen" } },
+];
+
+type GameModeSelectProps = {
+  gameManager: GameManager;
+};
+
+export default function GameModeSelect({ gameManager }: GameModeSelectProps) {
+  const { mode } = useGameState(gameManager);
+  const selected = GAME_MODES.findIndex(
+    (option) => option.mode.type === mode.type,
+  );
+
+  return (
+    <label className="flex items-center gap-2">
+      Mode
+      <select
+        value={selected}
+        onChange={(event) => {
+          // Switching mode starts a new game
+          gameManager.setMode(GAME_MODES[Number(event.target.value)].mode);
+          gameManager.restart();
+        }}
+        className="rounded border bg-background px-2 py-1"
+      >
+        {GAME_MODES.map((option, index) => (
+          <option key={option.mode.type} value={index}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
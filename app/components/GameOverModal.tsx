@@ -0,0 +1,126 @@
+"use client";
+
+import { GameManager } from "@/lib/core/GameManager";
+import { useGameState } from "@/lib/hooks/useGameState";
+import { GameOverReason, LevelStats, RecordType } from "@/lib/types";
+
+// Title for each way a game can end
+const END_TITLES: Record<GameOverReason, string> = {
+  won: "Level Complete!",
+  timeUp: "Time's Up!",
+  outOfAttempts: "Out of Attempts!",
+};
+
+// Banner text for each record
+const RECORD_LABELS: Record<RecordType, string> = {
+  score: "best score",
+  attempts: "fewest attempts",
+  efficiency: "best efficiency",
+  time: "best time",
+};
+
+type GameOverModalProps = {
+  gameManager: GameManager;
+  // Attempts a good player needs, shown next to the player's attempts
+  parAttempts?: number;
+  // Saved statistics of the level, including this game
+  stats?: LevelStats | null;
+  // Records broken by this game
+  newRecords?: RecordType[];
+  // Level navigation, each button is only shown when its handler is given
+  onPreviousLevel?: () => void;
+  onNextLevel?: () => void;
+  onLevelSelect?: () => void;
+};
+
+export default function GameOverModal({
+  gameManager,
+  parAttempts,
+  stats,
+  newRecords = [],
+  onPreviousLevel,
+  onNextLevel,
+  onLevelSelect,
+}: GameOverModalProps) {
+  const { score, attempts, time, isGameOver, endReason } =
+    useGameState(gameManager);
+
+  if (!isGameOver) {
+    return null;
+  }
+
+  // Share of attempts that scored (no attempts means a perfect game)
+  const efficiency = GameManager.getEfficiency(score, attempts);
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/60">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="game-over-title"
+        className="flex flex-col items-center gap-4 rounded-lg bg-background p-8 shadow-xl"
+      >
+        <h2 id="game-over-title" className="text-2xl font-bold">
+          {endReason ? END_TITLES[endReason] : "Game Over"}
+        </h2>
+        {newRecords.length > 0 && (
+          <p
+            role="status"
+            className="rounded bg-yellow-300 px-4 py-1 font-semibold text-black"
+          >
+            New record:{" "}
+            {newRecords.map((record) => RECORD_LABELS[record]).join(", ")}!
+          </p>
+        )}
+        <p>Final Score: {score}</p>
+        <p>
+          Total Attempts: {attempts} ({efficiency}%)
+        </p>
+        <p>Time: {(time / 1000).toFixed(1)} s</p>
+        {parAttempts !== undefined && <p>Par: {parAttempts}</p>}
+        {stats && (
+          <p className="text-sm">
+            Best: {stats.bestScore} points, {stats.fewestAttempts} attempts,{" "}
+            {(stats.bestTime / 1000).toFixed(1)} s ({stats.playCount} plays)
+          </p>
+        )}
+        <div className="flex gap-2">
+          {onPreviousLevel && (
+            <button
+              type="button"
+              onClick={onPreviousLevel}
+              className="rounded border px-4 py-2 hover:border-blue-500"
+            >
+              Previous Level
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => gameManager.restart()}
+            className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600"
+          >
+            Play Again
+          </button>
+          {onNextLevel && (
+            <button
+              type="button"
+              onClick={onNextLevel}
+              className="rounded border px-4 py-2 hover:border-blue-500"
+            >
+              Next Level
+            </button>
+          )}
+        </div>
+        {onLevelSelect && (
+          <button
+            type="button"
+            onClick={onLevelSelect}
+            className="text-blue-500 hover:underline"
+          >
+            All Levels
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
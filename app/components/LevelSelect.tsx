@@ -0,0 +1,37 @@
+"use client";
+
+import { LevelDefinition } from "@/lib/types";
+
+type LevelSelectProps = {
+  levels: LevelDefinition[];
+  onSelect: (index: number) => void;
+};
+
+export default function LevelSelect({ levels, onSelect }: LevelSelectProps) {
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <h2 className="text-2xl font-bold">Choose a level</h2>
+      <ul className="grid gap-4 sm:grid-cols-3">
+        {levels.map((level, index) => (
+          <li key={level.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(index)}
+              className="flex h-full w-56 flex-col gap-2 rounded-lg border p-4 text-left hover:border-blue-500"
+            >
+              <span className="font-semibold">
+                {index + 1}. {level.name}
+              </span>
+              {level.description && (
+                <span className="text-sm">{level.description}</span>
+              )}
+              {level.parAttempts !== undefined && (
+                <span className="text-sm">Par: {level.parAttempts}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
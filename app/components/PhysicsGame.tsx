@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BodyFactory } from "@/lib/components/BodyFactory";
+import { DebugControl } from "@/lib/components/DebugControl";
+import { ForceControl } from "@/lib/components/ForceControl";
+import { InputActions } from "@/lib/components/InputActions";
+import { InputHandler } from "@/lib/components/InputHandler";
+import { InputRecorder } from "@/lib/components/InputRecorder";
+import { LevelLoader } from "@/lib/components/LevelLoader";
+import { RecorderControl } from "@/lib/components/RecorderControl";
+import { ReplayControl } from "@/lib/components/ReplayControl";
+import { ReplayPlayer } from "@/lib/components/ReplayPlayer";
+import { Rewind } from "@/lib/components/Rewind";
+import { RewindControl } from "@/lib/components/RewindControl";
+import { TimeControl } from "@/lib/components/TimeControl";
+import { ActionMap } from "@/lib/core/ActionMap";
+import { BodySelection } from "@/lib/core/BodySelection";
+import { Engine } from "@/lib/core/Engine";
+import { GameManager } from "@/lib/core/GameManager";
+import { HighScores } from "@/lib/core/HighScores";
+import { useHighScores } from "@/lib/hooks/useHighScores";
+import { LEVELS } from "@/lib/levels";
+import {
+  InputRecording,
+  LevelDefinition,
+  RecordType,
+  ShootingMode,
+  SpawnShape,
+  ToolName,
+} from "@/lib/types";
+import { LocalStorage } from "@/lib/utils/LocalStorage";
+import BodyInspector from "./BodyInspector";
+import GameModeSelect from "./GameModeSelect";
+import GameOverModal from "./GameOverModal";
+import LevelSelect from "./LevelSelect";
+import ScoreBoard from "./ScoreBoard";
+import ShootingModeSelect from "./ShootingModeSelect";
+import ToolBar from "./ToolBar";
+
+type PhysicsGameProps = {
+  // Levels in play order
+  levels?: LevelDefinition[];
+  // Seed for a reproducible game (random when omitted)
+  seed?: number;
+};
+
+// Replays a recording of a level in a new engine rendering into the element, with
+// no input, rewind or statistics wired to it
+function createReplay(
+  element: HTMLElement,
+  level: LevelDefinition,
+  recording: InputRecording,
+  debugControl: DebugControl,
+) {
+  const engine = new Engine({
+    element: element,
+    width: level.width,
+    height: level.height,
+    fixedTimeStep: recording.timeStep,
+  });
+
+  try {
+    // The level is built the same way as for playing, so its bodies get the
+    // ids stored in the recording
+    const gameManager = new GameManager();
+    gameManager.setEngine(engine);
+    gameManager.resetGame();
+    const bodyFactory = new BodyFactory(debugControl, engine.getRandom());
+    new LevelLoader(engine, bodyFactory).load(level);
+
+    const actions = new InputActions(engine, bodyFactory, debugControl);
+    new ReplayControl(engine, new ReplayPlayer(engine, actions, recording));
+  } catch (error) {
+    engine.destroy();
+    throw error;
+  }
+
+  return engine;
+}
+
+export default function PhysicsGame({
+  levels = LEVELS,
+  seed,
+}: PhysicsGameProps) {
+  const scene = useRef<HTMLDivElement>(null);
+  // Element the loaded recordings are replayed in, shown instead of the scene
+  const replayScene = useRef<HTMLDivElement>(null);
+  const [replaying, setReplaying] = useState(false);
+  // Ends the replay and resumes the game (set while a scene is built)
+  const closeReplayRef = useRef<(() => void) | null>(null);
+  // One game per mounted component, so several games can share a page
+  const [gameManager] = useState(() => new GameManager());
+  // Statistics of every level, saved in the browser
+  const [highScores] = useState(() => new HighScores(new LocalStorage()));
+  const stats = useHighScores(highScores);
+  // Controls, as bound on the controls page
+  const [actionMap] = useState(() => new ActionMap(new LocalStorage()));
+  // Bodies picked with the select tool, shown in the inspector
+  const [selection] = useState(() => new BodySelection());
+  // Records broken by the last finished game
+  const [newRecords, setNewRecords] = useState<RecordType[]>([]);
+  // Index of the level being played, or null to show the level select screen
+  const [levelIndex, setLevelIndex] = useState<number | null>(null);
+  // How a left click shoots, kept across levels
+  const [shootingMode, setShootingMode] = useState<ShootingMode>("click");
+  // What a left click or a tap does, and the shape of spawned bodies
+  const [tool, setTool] = useState<ToolName>("repel");
+  const [spawnShape, setSpawnShape] = useState<SpawnShape>("random");
+  // Input handler of the current scene, to apply the shooting mode and the tool
+  const inputHandlerRef = useRef<InputHandler | null>(null);
+
+  const level = levelIndex === null ? null : levels[levelIndex];
+
+  useEffect(() => {
+    if (!scene.current || !level) {
+      return;
+    }
+
+    // Create the engine, rendering into the scene element
+    const engine = new Engine({
+      element: scene.current,
+      width: level.width,
+      height: level.height,
+      seed: seed,
+    });
+    gameManager.setEngine(engine);
+    gameManager.resetGame();
+
+    // Debug control and input need the renderer created by the engine
+    const debugControl = new DebugControl(engine);
+    const bodyFactory = new BodyFactory(debugControl, engine.getRandom());
+
+    // Build the level: walls, goal boxes, obstacles and the shapes to collect
+    const levelLoader = new LevelLoader(engine, bodyFactory);
+    levelLoader.load(level);
+
+    // Undo shots and rewind, with buttons and keyboard shortcuts
+    const rewind = new Rewind(engine);
+    new RewindControl(engine, rewind);
+    const inputHandler = new InputHandler(engine, bodyFactory, debugControl);
+    inputHandler.setRewind(rewind);
+    inputHandler.setActionMap(actionMap);
+    selection.setEngine(engine);
+    inputHandler.getTools().setSelection(selection);
+    inputHandlerRef.current = inputHandler;
+
+    // Each level chooses how clicks push the bodies, switchable while playing
+    inputHandler.getActions().setForceModel(level.forceModel ?? {});
+    new ForceControl(engine, inputHandler.getActions());
+
+    // Pause, single-step and speed controls, placed next to the debug control
+    new TimeControl(engine, inputHandler.getActions());
+
+    // Record the input to a file. Recordings of this level are replayed in
+    // their own engine while the game is paused (errors are shown by the control)
+    const recorder = new InputRecorder(
+      engine,
+      inputHandler.getActions(),
+      level.id,
+    );
+    const recorderControl = new RecorderControl(engine, recorder);
+    let replayEngine: Engine | null = null;
+    let wasPaused = false;
+    const closeReplay = () => {
+      if (!replayEngine) {
+        return;
+      }
+      replayEngine.destroy();
+      replayEngine = null;
+      if (!wasPaused) {
+        engine.resume();
+      }
+      setReplaying(false);
+    };
+    closeReplayRef.current = closeReplay;
+    recorderControl.onLoad((recording) => {
+      if (recording.levelId !== level.id) {
+        throw new Error(
+          `recorded on level "${recording.levelId ?? "unknown"}", not "${level.id}"`,
+        );
+      }
+      if (!replayScene.current) {
+        return;
+      }
+
+      closeReplay();
+      replayEngine = createReplay(
+        replayScene.current,
+        level,
+        recording,
+        debugControl,
+      );
+      wasPaused = engine.isPaused();
+      engine.pause();
+      setReplaying(true);
+    });
+
+    // Restarting clears the spawned bodies and rebuilds the level
+    gameManager.setRestartCallback(() => {
+      engine
+        .getAllBodies()
+        .filter((body) => !body.isStatic)
+        .forEach((body) => engine.removeBody(body));
+      levelLoader.reload();
+    });
+
+    // Save the statistics of every game won in a mode with comparable records
+    engine.on("gameOver", (result) => {
+      const mode = gameManager.getMode().type;
+      if (result.reason === "won" && HighScores.RECORDED_MODES.includes(mode)) {
+        setNewRecords(highScores.recordGame(level.id, result));
+      }
+    });
+    engine.on("restart", () => setNewRecords([]));
+
+    engine.start();
+
+    // Unmounting (or remounting under Strict Mode) tears the whole scene down
+    return () => {
+      inputHandlerRef.current = null;
+      closeReplay();
+      closeReplayRef.current = null;
+      engine.destroy();
+    };
+  }, [actionMap, gameManager, highScores, level, seed, selection]);
+
+  // Runs after the scene is built, so a new level keeps the input modes
+  useEffect(() => {
+    inputHandlerRef.current?.setShootingMode(shootingMode);
+    inputHandlerRef.current?.getTools().setTool(tool);
+    inputHandlerRef.current?.getTools().setSpawnShape(spawnShape);
+  }, [level, shootingMode, spawnShape, tool]);
+
+  if (!level || levelIndex === null) {
+    return <LevelSelect levels={levels} onSelect={setLevelIndex} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-6">
+        <span className="text-lg font-semibold">{level.name}</span>
+        <ScoreBoard gameManager={gameManager} />
+        <GameModeSelect gameManager={gameManager} />
+        <ShootingModeSelect mode={shootingMode} onChange={setShootingMode} />
+      </div>
+      <ToolBar
+        tool={tool}
+        spawnShape={spawnShape}
+        onToolChange={setTool}
+        onSpawnShapeChange={setSpawnShape}
+      />
+      <div className="flex items-start gap-4">
+        <div
+          ref={scene}
+          hidden={replaying}
+          style={{ width: level.width, height: level.height }}
+        />
+        <div
+          ref={replayScene}
+          hidden={!replaying}
+          style={{ width: level.width, height: level.height }}
+        />
+        <BodyInspector selection={selection} />
+      </div>
+      {replaying && (
+        <button
+          type="button"
+          className="rounded border px-2"
+          onClick={() => closeReplayRef.current?.()}
+        >
+          Back to the game
+        </button>
+      )}
+      <GameOverModal
+        gameManager={gameManager}
+        parAttempts={level.parAttempts}
+        stats={stats[level.id]}
+        newRecords={newRecords}
+        onPreviousLevel={
+          levelIndex > 0 ? () => setLevelIndex(levelIndex - 1) : undefined
+        }
+        onNextLevel={
+          levelIndex < levels.length - 1
+            ? () => setLevelIndex(levelIndex + 1)
+            : undefined
+        }
+        onLevelSelect={() => setLevelIndex(null)}
+      />
+    </div>
+  );
+}
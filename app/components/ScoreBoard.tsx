@@ -0,0 +1,48 @@
+"use client";
+
+import { GameManager } from "@/lib/core/GameManager";
+import { useGameState } from "@/lib/hooks/useGameState";
+
+type ScoreBoardProps = {
+  gameManager: GameManager;
+};
+
+export default function ScoreBoard({ gameManager }: ScoreBoardProps) {
+  const { score, attempts, zoneScores, breakdown, clock, mode } =
+    useGameState(gameManager);
+  const zones = Object.entries(zoneScores);
+  // Sources that earned (or cost) points
+  const sources = Object.entries(breakdown).filter(
+    ([, points]) => points !== 0,
+  );
+
+  return (
+    <div className="flex gap-6 text-lg font-semibold">
+      <span>Score: {score}</span>
+      <span>Attempts: {attempts}</span>
+      {mode.type === "limitedAttempts" && (
+        <span>Left: {Math.max(0, mode.maxAttempts - attempts)}</span>
+      )}
+      {mode.type === "countdown" && (
+        <span>Time left: {Math.max(0, mode.timeLimit / 1000 - clock)} s</span>
+      )}
+      {mode.type === "timeAttack" && <span>Time: {clock} s</span>}
+      {zones.length > 1 && (
+        <span className="text-sm font-normal">
+          {zones.map(([zoneId, points]) => `${zoneId}: ${points}`).join(" · ")}
+        </span>
+      )}
+      {sources.length > 1 && (
+        <span className="text-sm font-normal">
+          {sources
+            .map(([label, points], index) =>
+              index === 0
+                ? `${label} ${points}`
+                : `${label} ${points > 0 ? "+" : ""}${points}`,
+            )
+            .join(" · ")}
+        </span>
+      )}
+    </div>
+  );
+}
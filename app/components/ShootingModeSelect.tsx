@@ -0,0 +1,36 @@
+"use client";
+
+import { ShootingMode } from "@/lib/types";
+
+// Shooting modes offered to the player
+const SHOOTING_MODES: { label: string; mode: ShootingMode }[] = [
+  { label: "Click to repel", mode: "click" },
+  { label: "Slingshot (drag and release)", mode: "slingshot" },
+];
+
+type ShootingModeSelectProps = {
+  mode: ShootingMode;
+  onChange: (mode: ShootingMode) => void;
+};
+
+export default function ShootingModeSelect({
+  mode,
+  onChange,
+}: ShootingModeSelectProps) {
+  return (
+    <label className="flex items-center gap-2">
+      Shooting
+      <select
+        value={mode}
+        onChange={(event) => onChange(event.target.value as ShootingMode)}
+        className="rounded border bg-background px-2 py-1"
+      >
+        {SHOOTING_MODES.map((option) => (
+          <option key={option.mode} value={option.mode}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
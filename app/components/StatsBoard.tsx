@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { HighScores } from "@/lib/core/HighScores";
+import { useHighScores } from "@/lib/hooks/useHighScores";
+import { LEVELS } from "@/lib/levels";
+import { LevelDefinition } from "@/lib/types";
+import { LocalStorage } from "@/lib/utils/LocalStorage";
+
+type StatsBoardProps = {
+  // Levels to show, in play order
+  levels?: LevelDefinition[];
+};
+
+// Formats a simulation time in seconds
+function formatTime(time: number): string {
+  return `${(time / 1000).toFixed(1)} s`;
+}
+
+export default function StatsBoard({ levels = LEVELS }: StatsBoardProps) {
+  const [highScores] = useState(() => new HighScores(new LocalStorage()));
+  const stats = useHighScores(highScores);
+
+  return (
+    <div className="flex flex-col items-center gap-8">
+      {levels.map((level, index) => {
+        const levelStats = stats[level.id];
+
+        return (
+          <section
+            key={level.id}
+            className="flex w-full max-w-2xl flex-col gap-2"
+          >
+            <h2 className="text-xl font-semibold">
+              {index + 1}. {level.name}
+            </h2>
+            {!levelStats ? (
+              <p className="text-sm">Not finished yet.</p>
+            ) : (
+              <>
+                <p>
+                  {levelStats.playCount} plays · best score{" "}
+                  {levelStats.bestScore} · fewest attempts{" "}
+                  {levelStats.fewestAttempts} · best efficiency{" "}
+                  {levelStats.bestEfficiency}% · best time{" "}
+                  {formatTime(levelStats.bestTime)}
+                </p>
+                <table className="text-left text-sm">
+                  <thead>
+                    <tr>
+                      <th className="pr-4">Date</th>
+                      <th className="pr-4">Score</th>
+                      <th className="pr-4">Attempts</th>
+                      <th className="pr-4">Efficiency</th>
+                      <th>Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {levelStats.history.map((game, gameIndex) => (
+                      <tr key={`${game.date}-${gameIndex}`}>
+                        <td className="pr-4">
+                          {new Date(game.date).toLocaleString()}
+                        </td>
+                        <td className="pr-4">{game.score}</td>
+                        <td className="pr-4">{game.attempts}</td>
+                        <td className="pr-4">{game.efficiency}%</td>
+                        <td>{formatTime(game.time)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </section>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => highScores.clear()}
+        disabled={Object.keys(stats).length === 0}
+        className="rounded border px-4 py-2 hover:border-red-500 disabled:opacity-50"
+      >
+        Clear Statistics
+      </button>
+    </div>
+  );
+}
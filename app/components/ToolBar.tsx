@@ -0,0 +1,72 @@
+"use client";
+
+import { SpawnShape, ToolName } from "@/lib/types";
+
+// Tools offered to the player, in toolbar order
+const TOOLS: { label: string; tool: ToolName }[] = [
+  { label: "Repel", tool: "repel" },
+  { label: "Select", tool: "select" },
+  { label: "Move", tool: "move" },
+  { label: "Rotate", tool: "rotate" },
+  { label: "Spawn", tool: "spawn" },
+  { label: "Eraser", tool: "eraser" },
+];
+
+// Shapes the spawn tool can create
+const SPAWN_SHAPES: { label: string; shape: SpawnShape }[] = [
+  { label: "Random", shape: "random" },
+  { label: "Circle", shape: "circle" },
+  { label: "Polygon", shape: "polygon" },
+  { label: "Rectangle", shape: "rectangle" },
+];
+
+type ToolBarProps = {
+  tool: ToolName;
+  spawnShape: SpawnShape;
+  onToolChange: (tool: ToolName) => void;
+  onSpawnShapeChange: (shape: SpawnShape) => void;
+};
+
+// Chooses what a left click or a tap does on the canvas
+export default function ToolBar({
+  tool,
+  spawnShape,
+  onToolChange,
+  onSpawnShapeChange,
+}: ToolBarProps) {
+  return (
+    <div role="toolbar" aria-label="Tools" className="flex items-center gap-2">
+      {TOOLS.map((option) => (
+        <button
+          key={option.tool}
+          type="button"
+          aria-pressed={tool === option.tool}
+          onClick={() => onToolChange(option.tool)}
+          className={`rounded border px-3 py-1 ${
+            tool === option.tool
+              ? "bg-foreground text-background"
+              : "bg-background"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+      {tool === "spawn" && (
+        <select
+          aria-label="Shape"
+          value={spawnShape}
+          onChange={(event) =>
+            onSpawnShapeChange(event.target.value as SpawnShape)
+          }
+          className="rounded border bg-background px-2 py-1"
+        >
+          {SPAWN_SHAPES.map((option) => (
+            <option key={option.shape} value={option.shape}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import Link from "next/link";
+import ControlsSettings from "../components/ControlsSettings";
+
+export default function ControlsPage() {
+  return (
+    <div className="min-h-screen p-8 font-[family-name:var(--font-geist-sans)]">
+      <main className="flex flex-col gap-8 items-center">
+        <h1 className="text-4xl font-bold">Controls</h1>
+        <p className="text-lg text-center">
+          Bind the actions of the{" "}
+          <Link href="/physics-game" className="text-blue-500 hover:underline">
+            Physics Game
+          </Link>{" "}
+          to keys, mouse buttons and gamepad buttons.
+        </p>
+        <ControlsSettings />
+      </main>
+    </div>
+  );
+}
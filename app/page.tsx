@@ -17,6 +17,24 @@ export default function Home() {
               Falling Object
             </Link>
           </li>
+          <li>
+            <Link
+              href="/physics-game"
+              className="text-blue-500 hover:underline"
+            >
+              Physics Game
+            </Link>
+          </li>
+          <li>
+            <Link href="/stats" className="text-blue-500 hover:underline">
+              Statistics
+            </Link>
+          </li>
+          <li>
+            <Link href="/controls" className="text-blue-500 hover:underline">
+              Controls
+            </Link>
+          </li>
         </ul>
       </main>
     </div>
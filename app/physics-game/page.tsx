@@ -0,0 +1,25 @@
+import Link from "next/link";
+import PhysicsGame from "../components/PhysicsGame";
+
+export default function PhysicsGamePage() {
+  return (
+    <div className="min-h-screen p-8 font-[family-name:var(--font-geist-sans)]">
+      <main className="flex flex-col gap-8 items-center">
+        <h1 className="text-4xl font-bold">Physics Game</h1>
+        <p className="text-lg text-center">
+          Pick a level, then click or tap the shapes to push them into the
+          boxes.
+        </p>
+        <PhysicsGame />
+        <div className="flex gap-6">
+          <Link href="/stats" className="text-blue-500 hover:underline">
+            Statistics
+          </Link>
+          <Link href="/controls" className="text-blue-500 hover:underline">
+            Controls
+          </Link>
+        </div>
+      </main>
+    </div>
+  );
+}
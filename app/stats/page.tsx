@@ -0,0 +1,20 @@
+import Link from "next/link";
+import StatsBoard from "../components/StatsBoard";
+
+export default function StatsPage() {
+  return (
+    <div className="min-h-screen p-8 font-[family-name:var(--font-geist-sans)]">
+      <main className="flex flex-col gap-8 items-center">
+        <h1 className="text-4xl font-bold">Statistics</h1>
+        <p className="text-lg text-center">
+          Your records and recent games on each level of the{" "}
+          <Link href="/physics-game" className="text-blue-500 hover:underline">
+            Physics Game
+          </Link>
+          .
+        </p>
+        <StatsBoard />
+      </main>
+    </div>
+  );
+}
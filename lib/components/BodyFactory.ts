@@ -3,11 +3,14 @@
  * 
  * This file contains the BodyFactory class, responsible for creating different types of physical bodies
  * for the simulation using the Matter.js library. It provides methods to create circles, polygons,
- * rectangles, and random bodies with configurable physical and visual properties.
+ * rectangles, random bodies and bodies described by level definitions, with configurable
+ * physical and visual properties.
+ * All random choices (shape type, size, colour) come from a seeded Random instance.
  */
 
 import Matter from "matter-js";
-import { BodyOptions } from "../types";
+import { BodyOptions, LevelBodyDefinition, SpawnShape } from "../types";
+import { Random } from "../utils/Random";
 import { DebugControl } from "./DebugControl";
 
 /**
@@ -20,14 +23,18 @@ import { DebugControl } from "./DebugControl";
 export class BodyFactory {
     // DebugControl instance for logging body creation events
     private debugControl: DebugControl;
+    // Random number generator for shape types, sizes and colours
+    private random: Random;
 
     /**
      * BodyFactory constructor
      * 
      * @param debugControl - DebugControl instance for logging events
+     * @param random - Random number generator (pass engine.getRandom() for seeded runs)
      */
-    constructor(debugControl: DebugControl) {
+    constructor(debugControl: DebugControl, random: Random = new Random()) {
         this.debugControl = debugControl;
+        this.random = random;
     }
 
     /**
@@ -51,10 +58,14 @@ export class BodyFactory {
             restitution: options.restitution || 0.9,
             // Define friction (resistance to movement when in contact with other bodies)
             friction: options.friction || 0.1,
+            // Static bodies (e.g. obstacles) never move
+            isStatic: options.isStatic || false,
+            // Initial rotation
+            angle: options.angle || 0,
             // Visual settings for the body
             render: {
                 // Fill color (randomly chooses from shades of red if not specified)
-                fillStyle: options.render?.fillStyle || Matter.Common.choose([
+                fillStyle: options.render?.fillStyle || this.random.choose([
                     "#F44336",
                     "#E53935",
                     "#D32F2F",
@@ -102,10 +113,14 @@ export class BodyFactory {
             restitution: options.restitution || 0.9,
             // Define friction
             friction: options.friction || 0.1,
+            // Static bodies never move
+            isStatic: options.isStatic || false,
+            // Initial rotation
+            angle: options.angle || 0,
             // Visual settings for the body
             render: {
                 // Fill color (randomly chooses from shades of green if not specified)
-                fillStyle: options.render?.fillStyle || Matter.Common.choose([
+                fillStyle: options.render?.fillStyle || this.random.choose([
                     "#4CAF50",
                     "#8BC34A",
                     "#66BB6A",
@@ -153,10 +168,14 @@ export class BodyFactory {
             restitution: options.restitution || 0.9,
             // Define friction
             friction: options.friction || 0.1,
+            // Static bodies never move
+            isStatic: options.isStatic || false,
+            // Initial rotation
+            angle: options.angle || 0,
             // Visual settings for the body
             render: {
                 // Fill color (randomly chooses from shades of blue if not specified)
-                fillStyle: options.render?.fillStyle || Matter.Common.choose([
+                fillStyle: options.render?.fillStyle || this.random.choose([
                     "#2196F3",
                     "#64B5F6",
                     "#42A5F5",
@@ -184,6 +203,76 @@ export class BodyFactory {
         return body;
     }
 
+    /**
+     * Creates a body from a definition, e.g. one read from a level file
+     * 
+     * @param definition - Shape, position, size and options of the body
+     * @returns Matter.js Body matching the definition
+     */
+    public createBody(definition: LevelBodyDefinition): Matter.Body {
+        switch (definition.shape) {
+            case "circle":
+                return this.createCircle(
+                    definition.x,
+                    definition.y,
+                    definition.radius,
+                    definition.options,
+                );
+            case "polygon":
+                return this.createPolygon(
+                    definition.x,
+                    definition.y,
+                    definition.sides,
+                    definition.radius,
+                    definition.options,
+                );
+            case "rectangle":
+                return this.createRectangle(
+                    definition.x,
+                    definition.y,
+                    definition.width,
+                    definition.height,
+                    definition.options,
+                );
+        }
+    }
+
+    /**
+     * Creates a body of a given shape with a random size
+     * 
+     * @param shape - Shape of the body ("random" picks circle, polygon, or rectangle)
+     * @param x - X position of the body's center
+     * @param y - Y position of the body's center
+     * @returns Matter.js physical body
+     */
+    public createShape(shape: SpawnShape, x: number, y: number): Matter.Body {
+        switch (shape) {
+            case "random":
+                return this.createRandomBody(x, y);
+            case "circle":
+                // Create a circle with random radius between 10 and 40
+                return this.createCircle(x, y, this.random.range(10, 40));
+            case "polygon": {
+                // Determine a random number of sides between 3 and 8
+                const sides = Math.floor(this.random.range(3, 8));
+                // Create a polygon with random radius between 20 and 50
+                return this.createPolygon(
+                    x,
+                    y,
+                    sides,
+                    this.random.range(20, 50),
+                );
+            }
+            case "rectangle": {
+                // Determine random dimensions for the rectangle
+                const width = this.random.range(30, 80);
+                const height = this.random.range(30, 80);
+                // Create a rectangle with the random dimensions
+                return this.createRectangle(x, y, width, height);
+            }
+        }
+    }
+
     /**
      * Creates a random body (circle, polygon, or rectangle)
      * 
@@ -193,35 +282,14 @@ export class BodyFactory {
      */
     public createRandomBody(x: number, y: number): Matter.Body {
         // Generate a random number to determine the body type
-        const type = Math.random();
-        let body: Matter.Body;
-
-        // Create a circle if the number is less than 0.33
-        if (type < 0.33) {
-            // Create a circle with random radius between 10 and 40
-            body = this.createCircle(x, y, Matter.Common.random(10, 40));
-        } 
-        // Create a polygon if the number is between 0.33 and 0.66
-        else if (type < 0.66) {
-            // Determine a random number of sides between 3 and 8
-            const sides = Math.floor(Matter.Common.random(3, 8));
-            // Create a polygon with random radius between 20 and 50
-            body = this.createPolygon(
-                x,
-                y,
-                sides,
-                Matter.Common.random(20, 50),
-            );
-        } 
-        // Create a rectangle if the number is greater than 0.66
-        else {
-            // Determine random dimensions for the rectangle
-            const width = Matter.Common.random(30, 80);
-            const height = Matter.Common.random(30, 80);
-            // Create a rectangle with the random dimensions
-            body = this.createRectangle(x, y, width, height);
-        }
+        const type = this.random.next();
 
-        return body;
+        // Create a circle if the number is less than 0.33, a polygon if it is
+        // between 0.33 and 0.66, and a rectangle otherwise
+        return this.createShape(
+            type < 0.33 ? "circle" : type < 0.66 ? "polygon" : "rectangle",
+            x,
+            y,
+        );
     }
 }
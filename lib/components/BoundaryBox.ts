@@ -1,39 +1,90 @@
 /**
  * BoundaryBox.ts
  *
- * This file contains the BoundaryBox class, which creates a U-shaped box with bottom and side walls
- * in the Matter.js physics simulation. The box serves as a container for physics objects.
+ * This file contains the BoundaryBox class, which creates a goal zone: a three-sided box
+ * in the Matter.js physics simulation. The box serves as a container for physics objects,
+ * and a sensor filling the box detects the bodies that enter it.
  */
 
 import Matter from "matter-js";
 import { Engine } from "../core/Engine";
-import { GameManager } from "../core/GameManager";
+import { GoalOptions, GoalPath, GoalSide } from "../types";
 
 /**
  * BoundaryBox Class
  *
- * Creates and manages a U-shaped box with bottom and side walls in a specific position
- * on the screen. The box is made of static bodies that can interact with other physics objects.
- * When a body enters the box, it will be destroyed and a point will be added to the player's score.
+ * Creates and manages a goal zone made of three static walls, leaving one side open.
+ * The box can be placed, sized and rotated anywhere, and its walls take the zone's colour.
+ * When an accepted body enters the box, it will be destroyed and the zone's points will be
+ * added to the player's score (along with the zone id).
+ *
+ * Scoring goes through a single pipeline: the sensor reports the bodies overlapping it,
+ * a body is captured once it rested inside for the zone's rest time, shrinks and fades
+ * out for a short animation, and is then removed and scored. A body is captured at most
+ * once, even when it overlaps several zones.
+ *
+ * A box can follow a keyframed path. Its parts are moved kinematically before each
+ * update, with their velocity set, so bodies resting on the floor are carried along.
+ * The motion follows the simulation time, so it pauses, slows down and replays with it.
  */
 export class BoundaryBox {
+    // Default size of a box
+    public static readonly DEFAULT_WIDTH = 180;
+    public static readonly DEFAULT_HEIGHT = 140;
+    // Thickness of the box walls
+    private static readonly WALL_THICKNESS = 2;
+    // Labels of the box walls and of the sensor
+    public static readonly WALL_LABEL = "Goal Wall";
+    public static readonly SENSOR_LABEL = "Goal Sensor";
+    // Default length of the capture animation in milliseconds
+    public static readonly DEFAULT_CAPTURE_DURATION = 250;
+    // Scale of a captured body at the end of the animation
+    private static readonly CAPTURED_SCALE = 0.2;
+
+    // Speed (pixels per 1/60 s) below which a body inside the box counts as resting,
+    // relative to the box (which may be moving)
+    public static readonly REST_SPEED = 0.5;
+
+    // Bodies captured by any zone of an engine, so each body is scored exactly once
+    private static capturedBodiesByEngine: WeakMap<
+        Engine,
+        WeakSet<Matter.Body>
+    > = new WeakMap();
+
     // Reference to the physics engine
     private engine: Engine;
+    // Bodies captured by the zones of this engine
+    private capturedBodies: WeakSet<Matter.Body>;
     // Array to store the box parts (walls)
     private boxParts: Matter.Body[] = [];
+    // Sensor filling the box, detecting the bodies inside it
+    private sensor: Matter.Body | null = null;
+    // Bodies overlapping the sensor, with the simulation time they came to rest
+    // at (null while they move)
+    private candidates: Map<Matter.Body, number | null> = new Map();
+    // Bodies being captured, with the simulation time and scale of the animation
+    private captures: Map<Matter.Body, { startTime: number; scale: number }> =
+        new Map();
     // Width of the canvas/screen
     private width: number;
     // Height of the canvas/screen
     private height: number;
-    // Box dimensions and position
-    private boxDimensions: {
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-    };
-    // Reference to the game manager
-    private gameManager: GameManager;
+    // Placement, size, scoring and filters of the zone (defaults are used for missing values)
+    private options: GoalOptions;
+    // Center of the box in the world
+    private center: { x: number; y: number } = { x: 0, y: 0 };
+    // Inner size of the box (before rotation)
+    private size: { width: number; height: number } = { width: 0, height: 0 };
+    // Rotation of the box in radians
+    private angle: number = 0;
+    // Arena size the position and path were given for (scaled on resize)
+    private designSize: { width: number; height: number };
+    // Simulation time the path started at
+    private pathStartTime: number;
+    // Current offset of the box from its position, along its path
+    private pathOffset: { x: number; y: number } = { x: 0, y: 0 };
+    // Offset of each part from the center of the box
+    private partOffsets: Map<Matter.Body, { x: number; y: number }> = new Map();
 
     /**
      * BoundaryBox constructor
@@ -41,228 +92,676 @@ export class BoundaryBox {
      * @param engine - Reference to the physics engine
      * @param width - Width of the canvas/screen
      * @param height - Height of the canvas/screen
+     * @param options - Placement, size, scoring and filters of the zone
+     * (default: a 180x140 box open at the top in the bottom-right corner, worth 1 point)
      */
-    constructor(engine: Engine, width: number, height: number) {
+    constructor(
+        engine: Engine,
+        width: number,
+        height: number,
+        options: GoalOptions = {},
+    ) {
         this.engine = engine;
+        this.capturedBodies = BoundaryBox.getCapturedBodies(engine);
         this.width = width;
         this.height = height;
-        this.gameManager = GameManager.getInstance();
+        this.options = options;
+        this.designSize = { width: width, height: height };
+        this.pathStartTime = this.engine.getEngine().timing.timestamp;
         this.createBoxParts();
         this.setupCollisionDetection();
         this.handleCollision();
+        this.setupMotion();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the box parts from the physics engine and stops scoring
+     */
+    public destroy(): void {
+        const engine = this.engine.getEngine();
+        Matter.Events.off(engine, "beforeUpdate", this.onBeforeUpdate);
+        Matter.Events.off(engine, "afterUpdate", this.onAfterUpdate);
+        Matter.Events.off(engine, "collisionStart", this.onCollisionStart);
+        Matter.Events.off(engine, "collisionEnd", this.onCollisionEnd);
+        this.engine.off("restore", this.onRestore);
+
+        // Bodies still being captured are removed without scoring
+        for (const body of this.captures.keys()) {
+            this.engine.removeBody(body);
+        }
+        this.captures.clear();
+        this.candidates.clear();
+
+        this.removeBoxParts();
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Gets the id reported with every score made in this zone
+     *
+     * @returns The zone id
+     */
+    public getId(): string {
+        return this.options.id ?? BoundaryBox.getDefaultId();
+    }
+
+    /**
+     * Gets the id of a zone created without one
+     *
+     * @param index - Position of the zone among the zones of the level
+     * @returns The zone id, e.g. "goal-1" for the first zone
+     */
+    public static getDefaultId(index: number = 0): string {
+        return `goal-${index + 1}`;
+    }
+
+    /**
+     * Gets the number of points a body is worth in this zone
+     *
+     * @returns The zone's point value
+     */
+    public getPoints(): number {
+        return this.options.points ?? 1;
     }
 
     /**
-     * Creates the box parts (bottom and side walls)
+     * Creates the box parts (the walls of every side but the open one, and the sensor)
      *
      * This method calculates the dimensions and positions of the box parts
      * and creates static Matter.js bodies to represent them.
      */
     private createBoxParts(): void {
-        // Define fixed dimensions for the box
-        const BoxA_width = 180;
-        const BoxA_height = 140;
-
-        // Calculate position for the box (near the bottom-right corner of the screen)
-        const BoxA_x_position = this.width - (50.5 / 1.2 + BoxA_width / 2);
-        const BoxA_y_position = this.height - (50.5 / 1.2 + BoxA_height / 2);
-
-        // Store box dimensions for collision detection
-        this.boxDimensions = {
-            x: BoxA_x_position - BoxA_width / 2,
-            y: BoxA_y_position - BoxA_height / 2,
-            width: BoxA_width,
-            height: BoxA_height,
+        // Size of the box
+        this.size = {
+            width: this.options.width ?? BoundaryBox.DEFAULT_WIDTH,
+            height: this.options.height ?? BoundaryBox.DEFAULT_HEIGHT,
         };
 
-        // Log box dimensions and position for debugging
-        console.log(
-            "BoxA",
-            {
-                width: this.width,
-                height: this.height,
-                BoxA_x_position,
-                BoxA_y_position,
-                BoxA_width,
-                BoxA_height,
-            },
-        );
+        // Position of the box (near the bottom-right corner of the screen by default),
+        // kept relative to the arena when it is resized
+        const scale = this.getArenaScale();
+        this.center = {
+            x: this.options.x !== undefined
+                ? this.options.x * scale.x
+                : this.width - (50.5 / 1.2 + this.size.width / 2),
+            y: this.options.y !== undefined
+                ? this.options.y * scale.y
+                : this.height - (50.5 / 1.2 + this.size.height / 2),
+        };
+        this.angle = this.options.angle ?? 0;
 
-        // Create the bottom wall of the box
-        const bottomBox = Matter.Bodies.rectangle(
-            BoxA_x_position, // X position (center of the bottom wall)
-            BoxA_y_position + BoxA_height / 2, // Y position (bottom of the box)
-            BoxA_width, // Width (same as box width)
-            2, // Height (thin wall)
-            {
-                isStatic: true, // Make it a static body (doesn't move)
-                render: {
-                    fillStyle: "#060a19", // Dark blue fill color
-                    strokeStyle: "#000", // Black border
-                    lineWidth: 2, // Border thickness
-                },
-            },
+        // Start where the path currently is
+        this.pathOffset = this.getPathOffset(
+            this.engine.getEngine().timing.timestamp,
         );
+        const origin = Matter.Vector.add(this.center, this.pathOffset);
+
+        const openSide = this.options.openSide ?? "top";
+        const halfWidth = this.size.width / 2;
+        const halfHeight = this.size.height / 2;
+        const thickness = BoundaryBox.WALL_THICKNESS;
+
+        // Walls of each side, relative to the center of the unrotated box
+        const sides: Record<
+            GoalSide,
+            { x: number; y: number; width: number; height: number }
+        > = {
+            top: { x: 0, y: -halfHeight, width: this.size.width, height: thickness },
+            bottom: { x: 0, y: halfHeight, width: this.size.width, height: thickness },
+            left: { x: -halfWidth, y: 0, width: thickness, height: this.size.height },
+            right: { x: halfWidth, y: 0, width: thickness, height: this.size.height },
+        };
 
-        // Create the left wall of the box
-        const leftBox = Matter.Bodies.rectangle(
-            BoxA_x_position - BoxA_width / 2, // X position (left edge of the box)
-            BoxA_y_position, // Y position (center of the left wall)
-            2, // Width (thin wall)
-            BoxA_height, // Height (same as box height)
-            {
-                isStatic: true, // Make it a static body
-                render: {
-                    fillStyle: "#060a19", // Dark blue fill color
-                    strokeStyle: "#000", // Black border
-                    lineWidth: 2, // Border thickness
+        // Log the zone for debugging
+        console.log("Goal zone", {
+            id: this.getId(),
+            center: this.center,
+            size: this.size,
+            angle: this.angle,
+            openSide: openSide,
+        });
+
+        for (const side of Object.keys(sides) as GoalSide[]) {
+            if (side === openSide) {
+                continue;
+            }
+
+            // Rotate the wall around the center of the box
+            const wall = sides[side];
+            const offset = Matter.Vector.rotate(
+                { x: wall.x, y: wall.y },
+                this.angle,
+            );
+
+            const part = Matter.Bodies.rectangle(
+                origin.x + offset.x,
+                origin.y + offset.y,
+                wall.width,
+                wall.height,
+                {
+                    label: BoundaryBox.WALL_LABEL,
+                    isStatic: true, // Make it a static body (only moved along its path)
+                    angle: this.angle,
+                    render: {
+                        fillStyle: this.options.color ?? "#060a19", // Zone colour (dark blue by default)
+                        strokeStyle: "#000", // Black border
+                        lineWidth: 2, // Border thickness
+                    },
                 },
-            },
-        );
+            );
+            this.boxParts.push(part);
+            this.partOffsets.set(part, offset);
+        }
 
-        // Create the right wall of the box
-        const rightBox = Matter.Bodies.rectangle(
-            BoxA_x_position + BoxA_width / 2, // X position (right edge of the box)
-            BoxA_y_position, // Y position (center of the right wall)
-            2, // Width (thin wall)
-            BoxA_height, // Height (same as box height)
+        // Create the sensor filling the inside of the box: it detects bodies
+        // without colliding with them
+        this.sensor = Matter.Bodies.rectangle(
+            origin.x,
+            origin.y,
+            this.size.width - thickness,
+            this.size.height - thickness,
             {
-                isStatic: true, // Make it a static body
+                label: BoundaryBox.SENSOR_LABEL,
+                isStatic: true,
+                isSensor: true,
+                angle: this.angle,
                 render: {
-                    fillStyle: "#060a19", // Dark blue fill color
-                    strokeStyle: "#000", // Black border
-                    lineWidth: 2, // Border thickness
+                    fillStyle: this.options.color ?? "#060a19",
+                    opacity: 0.1, // Faint highlight of the zone
                 },
             },
         );
 
-        // Add all box parts to the array
-        this.boxParts.push(bottomBox, leftBox, rightBox);
+        this.partOffsets.set(this.sensor, { x: 0, y: 0 });
 
         // Add all box parts to the physics engine
-        this.engine.addBody(this.boxParts);
+        this.engine.addBody([...this.boxParts, this.sensor]);
     }
 
     /**
-     * Sets up collision detection for bodies entering the box
+     * Removes the box parts and the sensor from the physics engine
+     */
+    private removeBoxParts(): void {
+        for (const box of this.boxParts) {
+            this.engine.removeBody(box);
+        }
+        this.boxParts = [];
+
+        if (this.sensor) {
+            this.engine.removeBody(this.sensor);
+            this.sensor = null;
+        }
+
+        this.partOffsets.clear();
+    }
+
+    /**
+     * Sets up the motion along the path, run before each update
+     */
+    private setupMotion(): void {
+        Matter.Events.on(
+            this.engine.getEngine(),
+            "beforeUpdate",
+            this.onBeforeUpdate,
+        );
+    }
+
+    /**
+     * Moves the box along its path (Matter.js event handler)
+     *
+     * Parts are placed with their velocity updated, so the collision response carries
+     * touching bodies along. Bodies being captured move with the box.
+     */
+    private onBeforeUpdate = (): void => {
+        if (!this.options.path || !this.sensor) {
+            return;
+        }
+
+        this.pathOffset = this.getPathOffset(
+            this.engine.getEngine().timing.timestamp,
+        );
+        const origin = Matter.Vector.add(this.center, this.pathOffset);
+        const delta = Matter.Vector.sub(origin, this.sensor.position);
+
+        for (const [part, offset] of this.partOffsets) {
+            BoundaryBox.moveBody(part, Matter.Vector.add(origin, offset));
+        }
+
+        for (const body of this.captures.keys()) {
+            BoundaryBox.moveBody(body, Matter.Vector.add(body.position, delta));
+        }
+    };
+
+    /**
+     * Moves a static body, setting its velocity to the distance travelled
+     *
+     * @param body - The body to move
+     * @param position - Its new position
+     */
+    private static moveBody(body: Matter.Body, position: Matter.Vector): void {
+        const velocity = Matter.Vector.sub(position, body.position);
+        Matter.Body.setPosition(body, position);
+        Matter.Body.setVelocity(body, velocity);
+    }
+
+    /**
+     * Gets the offset of the box from its position at a given time
+     *
+     * @param time - Simulation time in milliseconds
+     * @returns The offset along the path, scaled to the arena
+     */
+    private getPathOffset(time: number): { x: number; y: number } {
+        const path = this.options.path;
+        if (!path || !(path.duration > 0)) {
+            return { x: 0, y: 0 };
+        }
+
+        const scale = this.getArenaScale();
+        // Progress through the current cycle, between 0 and 1
+        const elapsed = (time - this.pathStartTime) / path.duration;
+        const phase = ((elapsed % 1) + 1) % 1;
+
+        if (path.type === "circular") {
+            const radius = path.radius ?? 0;
+            const angle = 2 * Math.PI * BoundaryBox.ease(phase, path.easing) *
+                (path.clockwise ? 1 : -1);
+            return {
+                x: radius * Math.cos(angle) * scale.x,
+                y: radius * Math.sin(angle) * scale.y,
+            };
+        }
+
+        const keyframes = path.keyframes ?? [];
+        if (keyframes.length < 2) {
+            const keyframe = keyframes[0] ?? { x: 0, y: 0 };
+            return { x: keyframe.x * scale.x, y: keyframe.y * scale.y };
+        }
+
+        // Keyframes visited during a cycle, and position along them
+        let points: GoalPath["keyframes"] & object;
+        let position: number;
+        if (path.type === "pingPong") {
+            points = keyframes;
+            const forward = phase < 0.5 ? phase * 2 : 2 - phase * 2;
+            position = forward * (points.length - 1);
+        } else {
+            points = [...keyframes, keyframes[0]];
+            position = phase * (points.length - 1);
+        }
+
+        // Interpolate between the two surrounding keyframes
+        const index = Math.min(Math.floor(position), points.length - 2);
+        const t = BoundaryBox.ease(position - index, path.easing);
+        const from = points[index];
+        const to = points[index + 1];
+        return {
+            x: (from.x + (to.x - from.x) * t) * scale.x,
+            y: (from.y + (to.y - from.y) * t) * scale.y,
+        };
+    }
+
+    /**
+     * Applies an easing function
+     *
+     * @param t - Progress between 0 and 1
+     * @param easing - The easing (default: linear)
+     * @returns The eased progress between 0 and 1
+     */
+    private static ease(t: number, easing: GoalPath["easing"]): number {
+        switch (easing) {
+            case "easeIn":
+                return t * t;
+            case "easeOut":
+                return t * (2 - t);
+            case "easeInOut":
+                return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+            default:
+                return t;
+        }
+    }
+
+    /**
+     * Gets the ratio between the arena size and the size the box was given for
+     *
+     * @returns Horizontal and vertical scale
+     */
+    private getArenaScale(): { x: number; y: number } {
+        return {
+            x: this.width / this.designSize.width,
+            y: this.height / this.designSize.height,
+        };
+    }
+
+    /**
+     * Sets up the scoring pipeline, run after each update
      */
     private setupCollisionDetection(): void {
-        // Check for bodies inside the box on each update
-        Matter.Events.on(this.engine.getEngine(), "afterUpdate", () => {
-            this.checkBodiesInBox();
-        });
+        Matter.Events.on(
+            this.engine.getEngine(),
+            "afterUpdate",
+            this.onAfterUpdate,
+        );
     }
 
     /**
-     * Handles collision events with the box
-     * 
-     * This method is called when a collision is detected between a body and the box.
-     * If a body enters the box, it will be destroyed and a point will be added to the score.
+     * Runs the scoring pipeline after each update (Matter.js event handler)
+     */
+    private onAfterUpdate = (): void => {
+        const time = this.engine.getEngine().timing.timestamp;
+        this.updateCandidates(time);
+        this.updateCaptures(time);
+    };
+
+    /**
+     * Tracks the bodies entering and leaving the sensor
      */
     private handleCollision(): void {
-        // Get the game manager instance
-        const gameManager = GameManager.getInstance();
-        
-        // Add event listener for collision events
-        Matter.Events.on(this.engine.getEngine(), "collisionStart", (event) => {
-            // Get all collision pairs from the event
-            const pairs = event.pairs;
-
-            // Loop through all collision pairs
-            for (const pair of pairs) {
-                // Get the two bodies involved in the collision
-                const bodyA = pair.bodyA;
-                const bodyB = pair.bodyB;
-
-                // Check if one of the bodies is part of the box
-                const isBoxPartA = this.boxParts.includes(bodyA);
-                const isBoxPartB = this.boxParts.includes(bodyB);
-
-                // If neither body is part of the box, skip this pair
-                if (!isBoxPartA && !isBoxPartB) {
-                    continue;
-                }
+        const engine = this.engine.getEngine();
+        Matter.Events.on(engine, "collisionStart", this.onCollisionStart);
+        Matter.Events.on(engine, "collisionEnd", this.onCollisionEnd);
+        this.engine.on("restore", this.onRestore);
+    }
+
+    /**
+     * Starts tracking afresh after the world was restored from a snapshot
+     * (e.g. when a shot is undone)
+     *
+     * Capture animations in progress are dropped, and the bodies already inside
+     * the sensor, which will not start colliding with it again, become candidates.
+     */
+    private onRestore = (): void => {
+        for (const body of this.captures.keys()) {
+            this.capturedBodies.delete(body);
+        }
+        this.captures.clear();
+        this.candidates.clear();
+
+        if (!this.sensor) {
+            return;
+        }
+
+        const bodies = this.engine.getAllBodies().filter((body) =>
+            !body.isStatic && this.acceptsBody(body) &&
+            !this.capturedBodies.has(body)
+        );
+        for (const collision of Matter.Query.collides(this.sensor, bodies)) {
+            const body = collision.bodyA === this.sensor
+                ? collision.bodyB
+                : collision.bodyA;
+            this.candidates.set(body, null);
+        }
+    };
+
+    /**
+     * Adds the bodies entering the sensor to the candidates (Matter.js event handler)
+     *
+     * @param event - The collision event
+     */
+    private onCollisionStart = (
+        event: Matter.IEventCollision<Matter.Engine>,
+    ): void => {
+        for (const pair of event.pairs) {
+            const body = this.getOtherBody(pair);
+
+            // Only dynamic bodies accepted by the zone can be scored
+            if (
+                body && !body.isStatic && this.acceptsBody(body) &&
+                !this.capturedBodies.has(body)
+            ) {
+                this.candidates.set(body, null);
+            }
+        }
+    };
+
+    /**
+     * Removes the bodies leaving the sensor from the candidates (Matter.js event handler)
+     *
+     * @param event - The collision event
+     */
+    private onCollisionEnd = (
+        event: Matter.IEventCollision<Matter.Engine>,
+    ): void => {
+        for (const pair of event.pairs) {
+            const body = this.getOtherBody(pair);
+            if (body) {
+                this.candidates.delete(body);
+            }
+        }
+    };
+
+    /**
+     * Gets the body overlapping the sensor in a collision pair
+     *
+     * @param pair - The collision pair
+     * @returns The body that is not the sensor, or null if the sensor is not involved
+     */
+    private getOtherBody(pair: Matter.Pair): Matter.Body | null {
+        if (pair.bodyA === this.sensor) {
+            return pair.bodyB;
+        }
+        if (pair.bodyB === this.sensor) {
+            return pair.bodyA;
+        }
+        return null;
+    }
 
-                // Get the other body (not the box part)
-                const otherBody = isBoxPartA ? bodyB : bodyA;
+    /**
+     * Captures the candidates that rested inside the sensor for the zone's rest time
+     *
+     * Without a rest time, bodies are captured as soon as they enter. Otherwise the
+     * rest time starts over every time a body moves faster than REST_SPEED.
+     *
+     * @param time - Current simulation time in milliseconds
+     */
+    private updateCandidates(time: number): void {
+        const restTime = this.options.restTime ?? 0;
+
+        for (const [body, restingSince] of this.candidates) {
+            // Forget bodies removed by something else, or captured by another zone
+            if (
+                !this.engine.getAllBodies().includes(body) ||
+                this.capturedBodies.has(body)
+            ) {
+                this.candidates.delete(body);
+                continue;
+            }
 
-                // Skip if the other body is static (like a wall)
-                if (otherBody.isStatic) {
+            if (restTime > 0) {
+                if (!this.isResting(body)) {
+                    this.candidates.set(body, null);
                     continue;
                 }
-
-                // Check if the body is inside the box
-                if (this.isBodyInsideBox(otherBody)) {
-                    // Add a point to the score
-                    gameManager.addScore();
-                    
-                    // Remove the body from the world
-                    Matter.Composite.remove(this.engine.getWorld(), otherBody);
-                    
-                    // Check if the game is over after removing the body
-                    gameManager.checkGameOver();
+                if (restingSince === null) {
+                    this.candidates.set(body, time);
+                    continue;
+                }
+                if (time - restingSince < restTime) {
+                    continue;
                 }
             }
-        });
+
+            this.candidates.delete(body);
+            this.captureBody(body, time);
+        }
     }
 
     /**
-     * Checks if any bodies are inside the box and handles them
+     * Checks if a body is resting, i.e. moving slowly relative to the box
+     *
+     * @param body - The body to check
+     * @returns True if its speed relative to the box is below REST_SPEED
      */
-    private checkBodiesInBox(): void {
-        // Get all bodies in the simulation
-        const allBodies = this.engine.getAllBodies();
+    private isResting(body: Matter.Body): boolean {
+        const boxVelocity = this.sensor
+            ? Matter.Body.getVelocity(this.sensor)
+            : { x: 0, y: 0 };
+        const velocity = Matter.Vector.sub(
+            Matter.Body.getVelocity(body),
+            boxVelocity,
+        );
+        return Matter.Vector.magnitude(velocity) < BoundaryBox.REST_SPEED;
+    }
 
-        // Filter out static bodies (like walls) and check if any are inside the box
-        const bodiesToCheck = allBodies.filter((body) => !body.isStatic);
+    /**
+     * Freezes a body and starts its capture animation
+     *
+     * @param body - The body to capture
+     * @param time - Current simulation time in milliseconds
+     */
+    private captureBody(body: Matter.Body, time: number): void {
+        this.capturedBodies.add(body);
 
-        for (const body of bodiesToCheck) {
-            // Check if the body's center is inside the box
-            if (this.isBodyInBox(body)) {
-                // Remove the body from the simulation
-                this.engine.removeBody(body);
+        // The body stays in place and stops colliding while it shrinks
+        Matter.Body.setStatic(body, true);
+        body.isSensor = true;
 
-                // Increment the score using the game manager
-                this.gameManager.addScore();
+        this.captures.set(body, { startTime: time, scale: 1 });
+        this.updateCaptures(time);
+    }
 
-                // Log the event for debugging
-                console.log(
-                    `Body ${body.id} entered the box!`,
-                );
+    /**
+     * Advances the capture animations, scoring the bodies whose animation ended
+     *
+     * @param time - Current simulation time in milliseconds
+     */
+    private updateCaptures(time: number): void {
+        const duration = this.options.captureDuration ??
+            BoundaryBox.DEFAULT_CAPTURE_DURATION;
+
+        for (const [body, capture] of this.captures) {
+            const progress = duration > 0
+                ? Math.min(1, (time - capture.startTime) / duration)
+                : 1;
+
+            if (progress >= 1) {
+                this.captures.delete(body);
+                // Give the body its size and mass back, for the scoring rules
+                Matter.Body.scale(body, 1 / capture.scale, 1 / capture.scale);
+                Matter.Body.setStatic(body, false);
+                this.scoreBody(body);
+                continue;
             }
+
+            // Shrink and fade the body out
+            const scale = 1 - (1 - BoundaryBox.CAPTURED_SCALE) * progress;
+            Matter.Body.scale(body, scale / capture.scale, scale / capture.scale);
+            capture.scale = scale;
+            body.render.opacity = 1 - progress;
         }
     }
 
+    /**
+     * Removes a captured body and adds the zone's points to the score
+     *
+     * This is the only place where a zone scores.
+     *
+     * @param body - The captured body
+     */
+    private scoreBody(body: Matter.Body): void {
+        // Remove the body from the simulation
+        this.engine.removeBody(body);
+
+        // Score the body through the game's scoring rules (if any), announce
+        // the capture, then check whether the game is over
+        const gameManager = this.engine.getGameManager();
+        const points = gameManager
+            ? gameManager.scoreCapture(body, this.getPoints(), this.getId())
+            : this.getPoints();
+        this.engine.emit("bodyScored", {
+            body: body,
+            points: points,
+            zoneId: this.getId(),
+        });
+        gameManager?.checkGameOver();
+
+        // Log the event for debugging
+        console.log(`Body ${body.id} entered the box ${this.getId()}!`);
+    }
+
     /**
      * Checks if a body is inside the box
      *
      * @param body - The body to check
-     * @returns True if the body is inside the box, false otherwise
+     * @returns True if the body's center is between the walls of the box, false otherwise
      */
-    private isBodyInBox(body: Matter.Body): boolean {
-        // Get the body's position
-        const { x, y } = body.position;
+    public containsBody(body: Matter.Body): boolean {
+        // Express the body's position in the box's own (unrotated) frame
+        const center = Matter.Vector.add(this.center, this.pathOffset);
+        const local = Matter.Vector.rotate(
+            Matter.Vector.sub(body.position, center),
+            -this.angle,
+        );
 
-        // Check if the body's center is inside the box
         return (
-            x > this.boxDimensions.x &&
-            x < this.boxDimensions.x + this.boxDimensions.width &&
-            y > this.boxDimensions.y + 85 &&
-            y < this.boxDimensions.y + this.boxDimensions.height
+            Math.abs(local.x) < this.size.width / 2 &&
+            Math.abs(local.y) < this.size.height / 2
         );
     }
 
-    private isBodyInsideBox(body: Matter.Body): boolean {
-        // Get the body's position
-        const { x, y } = body.position;
+    /**
+     * Checks if the zone accepts a body, according to its shape and colour filters
+     *
+     * @param body - The body to check
+     * @returns True if the body can be scored in this zone, false otherwise
+     */
+    public acceptsBody(body: Matter.Body): boolean {
+        const { shapes, colors } = this.options.accepts ?? {};
 
-        // Check if the body's center is inside the box
-        return (
-            x > this.boxDimensions.x &&
-            x < this.boxDimensions.x + this.boxDimensions.width &&
-            y > this.boxDimensions.y &&
-            y < this.boxDimensions.y + this.boxDimensions.height
-        );
+        if (shapes && !shapes.includes(BoundaryBox.getShape(body))) {
+            return false;
+        }
+
+        const fillStyle = String(body.render.fillStyle ?? "").toLowerCase();
+        if (
+            colors &&
+            !colors.some((color) => color.toLowerCase() === fillStyle)
+        ) {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Checks if a body was captured by a goal zone (being animated or scored)
+     *
+     * @param engine - The engine the body belongs to
+     * @param body - The body to check
+     * @returns True if the body was captured
+     */
+    public static isCaptured(engine: Engine, body: Matter.Body): boolean {
+        return BoundaryBox.capturedBodiesByEngine.get(engine)?.has(body) ?? false;
+    }
+
+    /**
+     * Gets the bodies captured by the zones of an engine
+     *
+     * @param engine - The engine
+     * @returns The captured bodies, shared by every zone of the engine
+     */
+    private static getCapturedBodies(engine: Engine): WeakSet<Matter.Body> {
+        let capturedBodies = BoundaryBox.capturedBodiesByEngine.get(engine);
+        if (!capturedBodies) {
+            capturedBodies = new WeakSet();
+            BoundaryBox.capturedBodiesByEngine.set(engine, capturedBodies);
+        }
+        return capturedBodies;
+    }
+
+    /**
+     * Gets the shape of a body, from the label given by Matter.Bodies
+     *
+     * @param body - The body
+     * @returns "circle", "rectangle" or "polygon"
+     */
+    public static getShape(body: Matter.Body): "circle" | "rectangle" | "polygon" {
+        if (body.label === "Circle Body" || body.circleRadius) {
+            return "circle";
+        }
+        return body.label === "Rectangle Body" ? "rectangle" : "polygon";
     }
 
     /**
@@ -277,6 +776,8 @@ export class BoundaryBox {
     /**
      * Resizes the box when the canvas/screen size changes
      *
+     * The position and path of the box are scaled with the arena.
+     *
      * @param width - New width of the canvas/screen
      * @param height - New height of the canvas/screen
      */
@@ -285,9 +786,7 @@ export class BoundaryBox {
         this.height = height;
 
         // Remove old box parts from the physics engine
-        for (const box of this.boxParts) {
-            this.engine.removeBody(box);
-        }
+        this.removeBoxParts();
 
         // Create new box parts with updated dimensions
         this.createBoxParts();
@@ -7,6 +7,7 @@
 
 import Matter from "matter-js";
 import { Engine } from "../core/Engine";
+import { WallOptions } from "../types";
 
 /**
  * BoundaryWalls Class
@@ -14,8 +15,12 @@ import { Engine } from "../core/Engine";
  * Creates and manages the four boundary walls (top, bottom, left, right) that
  * surround the simulation area. The walls are static bodies that prevent
  * other physics objects from leaving the screen.
+ * Levels can leave sides open and change the wall thickness.
  */
 export class BoundaryWalls {
+    // Label of the wall bodies
+    public static readonly LABEL = "Boundary Wall";
+
     // Reference to the physics engine
     private engine: Engine;
     // Array to store the wall bodies
@@ -24,6 +29,8 @@ export class BoundaryWalls {
     private width: number;
     // Height of the canvas/screen
     private height: number;
+    // Sides to build and wall thickness
+    private options: WallOptions;
 
     /**
      * BoundaryWalls constructor
@@ -31,12 +38,33 @@ export class BoundaryWalls {
      * @param engine - Reference to the physics engine
      * @param width - Width of the canvas/screen
      * @param height - Height of the canvas/screen
+     * @param options - Sides to build and wall thickness (default: all four, 50.5 thick)
      */
-    constructor(engine: Engine, width: number, height: number) {
+    constructor(
+        engine: Engine,
+        width: number,
+        height: number,
+        options: WallOptions = {},
+    ) {
         this.engine = engine;
         this.width = width;
         this.height = height;
+        this.options = options;
         this.createWalls();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the walls from the physics engine
+     */
+    public destroy(): void {
+        for (const wall of this.walls) {
+            this.engine.removeBody(wall);
+        }
+        this.walls = [];
+
+        this.engine.unregisterComponent(this);
     }
 
     /**
@@ -46,13 +74,17 @@ export class BoundaryWalls {
      * of the screen to act as boundary walls for the simulation.
      */
     private createWalls(): void {
+        // Thickness of every wall
+        const thickness = this.options.thickness ?? 50.5;
+
         // Bottom wall - positioned at the bottom edge of the screen
         const bottomWall = Matter.Bodies.rectangle(
             this.width / 2,      // X position (center of the screen horizontally)
             this.height,         // Y position (bottom edge of the screen)
             this.width,          // Width (full screen width)
-            50.5,                // Height (thickness of the wall)
+            thickness,           // Height (thickness of the wall)
             {
+                label: BoundaryWalls.LABEL,
                 isStatic: true,  // Make it a static body (doesn't move)
                 render: {
                     fillStyle: "#060a19",  // Dark blue fill color
@@ -66,9 +98,10 @@ export class BoundaryWalls {
         const leftWall = Matter.Bodies.rectangle(
             0,                   // X position (left edge of the screen)
             this.height / 2,     // Y position (center of the screen vertically)
-            50.5,                // Width (thickness of the wall)
+            thickness,           // Width (thickness of the wall)
             this.height,         // Height (full screen height)
             {
+                label: BoundaryWalls.LABEL,
                 isStatic: true,  // Make it a static body
                 render: {
                     fillStyle: "#060a19",  // Dark blue fill color
@@ -82,9 +115,10 @@ export class BoundaryWalls {
         const rightWall = Matter.Bodies.rectangle(
             this.width,          // X position (right edge of the screen)
             this.height / 2,     // Y position (center of the screen vertically)
-            50.5,                // Width (thickness of the wall)
+            thickness,           // Width (thickness of the wall)
             this.height,         // Height (full screen height)
             {
+                label: BoundaryWalls.LABEL,
                 isStatic: true,  // Make it a static body
                 render: {
                     fillStyle: "#060a19",  // Dark blue fill color
@@ -99,8 +133,9 @@ export class BoundaryWalls {
             this.width / 2,      // X position (center of the screen horizontally)
             0,                   // Y position (top edge of the screen)
             this.width,          // Width (full screen width)
-            50.5,                // Height (thickness of the wall)
+            thickness,           // Height (thickness of the wall)
             {
+                label: BoundaryWalls.LABEL,
                 isStatic: true,  // Make it a static body
                 render: {
                     fillStyle: "#060a19",  // Dark blue fill color
@@ -110,8 +145,16 @@ export class BoundaryWalls {
             },
         );
 
-        // Store all walls in the array
-        this.walls = [bottomWall, leftWall, rightWall, topWall];
+        // Store the walls of the enabled sides (all by default) in the array
+        const sides = [
+            { enabled: this.options.bottom ?? true, wall: bottomWall },
+            { enabled: this.options.left ?? true, wall: leftWall },
+            { enabled: this.options.right ?? true, wall: rightWall },
+            { enabled: this.options.top ?? true, wall: topWall },
+        ];
+        this.walls = sides.filter((side) => side.enabled).map((side) =>
+            side.wall
+        );
         // Add all walls to the physics engine
         this.engine.addBody(this.walls);
     }
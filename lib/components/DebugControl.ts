@@ -7,6 +7,7 @@
  */
 
 import Matter from "matter-js";
+import { Engine } from "../core/Engine";
 
 /**
  * DebugControl Class
@@ -14,7 +15,8 @@ import Matter from "matter-js";
  * Manages debugging features for the physics simulation, including:
  * - A checkbox UI element to toggle debug mode
  * - Debug visualization options for the renderer
- * - Mouse interaction with physics objects when in debug mode
+ * - Mouse interaction with physics objects when in debug mode (through the engine's
+ *   shared mouse constraint)
  * - Event logging functionality
  */
 export class DebugControl {
@@ -22,11 +24,9 @@ export class DebugControl {
     private element: HTMLDivElement;
     private checkbox: HTMLInputElement;
 
-    // Matter.js components
+    // Physics engine and its renderer
+    private engine: Engine;
     private render: Matter.Render;
-    private engine: Matter.Engine;
-    private mouse: Matter.Mouse;
-    private mouseConstraint: Matter.MouseConstraint;
 
     // State and callbacks
     private isDebugMode: boolean;
@@ -35,10 +35,13 @@ export class DebugControl {
     /**
      * DebugControl constructor
      *
-     * @param engine - The Matter.js engine instance
-     * @param render - The Matter.js renderer instance
+     * @param engine - The physics engine, with a renderer
      */
-    constructor(engine: Matter.Engine, render: Matter.Render) {
+    constructor(engine: Engine) {
+        const render = engine.getRender();
+        if (!render) {
+            throw new Error("DebugControl requires an Engine with a renderer");
+        }
         this.engine = engine;
         this.render = render;
 
@@ -55,9 +58,10 @@ export class DebugControl {
         `;
         document.body.appendChild(this.element);
 
-        // Get checkbox element and set initial state
-        this.checkbox = document.getElementById(
-            "debugMode",
+        // Get checkbox element and set initial state (looked up in this control,
+        // as other instances may still be on the page)
+        this.checkbox = this.element.querySelector(
+            "#debugMode",
         ) as HTMLInputElement;
         this.checkbox.checked = this.isDebugMode;
 
@@ -66,6 +70,19 @@ export class DebugControl {
 
         // Initialize debug mode settings
         this.updateDebugMode();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops dragging bodies, removes the control from the page and every registered
+     * callback
+     */
+    public destroy(): void {
+        this.engine.disableMouseConstraint(this);
+        this.onChangeCallbacks = [];
+        this.element.remove();
+        this.engine.unregisterComponent(this);
     }
 
     /**
@@ -86,36 +103,11 @@ export class DebugControl {
         this.render.options.showVelocity = this.isDebugMode;
         this.render.options.showIds = this.isDebugMode;
 
-        // Handle mouse interaction based on debug mode
+        // Drag bodies with the mouse for interactive debugging
         if (this.isDebugMode) {
-            // Create mouse and mouse constraint for interactive debugging
-            this.mouse = Matter.Mouse.create(this.render.canvas);
-            this.mouseConstraint = Matter.MouseConstraint.create(this.engine, {
-                mouse: this.mouse,
-                constraint: {
-                    stiffness: 0.2, // How rigid the constraint is
-                    render: {
-                        visible: true, // Show the constraint when dragging
-                    },
-                },
-            });
-
-            // Add mouse constraint to the physics world
-            Matter.Composite.add(this.engine.world, this.mouseConstraint);
-
-            // Connect mouse to the renderer
-            this.render.mouse = this.mouse;
+            this.engine.enableMouseConstraint(this);
         } else {
-            // Remove mouse constraint from the physics world when debug mode is off
-            if (this.mouseConstraint) {
-                Matter.Composite.remove(
-                    this.engine.world,
-                    this.mouseConstraint,
-                );
-            }
-
-            // Note: Commented out to prevent issues with other mouse interactions
-            // this.render.mouse = undefined;
+            this.engine.disableMouseConstraint(this);
         }
 
         // Save debug mode state to localStorage for persistence
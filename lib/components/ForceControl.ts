@@ -0,0 +1,98 @@
+/**
+ * ForceControl.ts
+ *
+ * This file contains the ForceControl class, which adds a menu to switch the model of
+ * the repelling force while playing.
+ */
+
+import { Engine } from "../core/Engine";
+import { ForceModel } from "../core/ForceModel";
+import { InputActions } from "./InputActions";
+
+/**
+ * ForceControl Class
+ *
+ * Manages the force model UI, placed next to the debug control when present:
+ * - A menu listing the force model presets
+ * - A "Custom" entry shown while the model matches no preset (e.g. set by a level)
+ */
+export class ForceControl {
+    // Value of the menu entry shown for models matching no preset
+    private static readonly CUSTOM = "custom";
+
+    // UI elements
+    private element: HTMLLabelElement;
+    private select: HTMLSelectElement;
+    private customOption: HTMLOptionElement;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // Actions used to change the model (so the change can be recorded)
+    private inputActions: InputActions;
+
+    /**
+     * ForceControl constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param inputActions - Actions bound to that engine
+     */
+    constructor(engine: Engine, inputActions: InputActions) {
+        this.engine = engine;
+        this.inputActions = inputActions;
+
+        // Create force control UI element
+        this.element = document.createElement("label");
+        this.element.className = "force-control";
+        this.element.textContent = "Force ";
+
+        this.select = document.createElement("select");
+        for (const [name, preset] of Object.entries(ForceModel.PRESETS)) {
+            this.select.add(new Option(preset.label, name));
+        }
+        this.customOption = new Option("Custom", ForceControl.CUSTOM);
+        this.select.add(this.customOption);
+        this.element.appendChild(this.select);
+
+        // Place the menu next to the debug control checkbox if it exists
+        const debugElement = document.querySelector(".debug-control");
+        if (debugElement) {
+            debugElement.after(this.element);
+        } else {
+            document.body.appendChild(this.element);
+        }
+
+        // Add event listener to switch the model
+        this.select.addEventListener("change", () => {
+            const preset = ForceModel.PRESETS[this.select.value];
+            if (preset) {
+                this.inputActions.setForceModel(preset.options);
+            }
+        });
+
+        // Keep the menu in sync with changes made elsewhere (e.g. a level loading)
+        this.engine.on("forceModelChange", this.updateDisplay);
+
+        this.updateDisplay();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the menu from the page and stops listening to the engine
+     */
+    public destroy(): void {
+        this.engine.off("forceModelChange", this.updateDisplay);
+        this.element.remove();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Selects the menu entry of the current model
+     */
+    private updateDisplay = (): void => {
+        const name = this.inputActions.getForceModel().getPresetName();
+
+        this.customOption.hidden = name !== null;
+        this.select.value = name ?? ForceControl.CUSTOM;
+    };
+}
@@ -0,0 +1,349 @@
+/**
+ * GamepadInput.ts
+ *
+ * This file contains the GamepadInput class, which lets a game controller play: the
+ * left stick moves a virtual crosshair over the canvas, the triggers repel the body
+ * under it with analog strength, and the buttons perform their bound actions.
+ */
+
+import Matter from "matter-js";
+import { ActionMap } from "../core/ActionMap";
+import { Camera } from "../core/Camera";
+import { Engine } from "../core/Engine";
+import { ControlAction } from "../types";
+import { InputActions } from "./InputActions";
+
+/**
+ * GamepadInput Class
+ *
+ * The Gamepad API sends no events for buttons and sticks, so the first connected
+ * gamepad is polled before every frame is rendered. Buttons are looked up in the
+ * ActionMap (standard gamepad mapping):
+ * - Repel (triggers by default) charges while held and fires when released, with
+ *   the strength of the deepest press
+ * - Spawn and delete all act at the crosshair
+ * - Other actions are reported to the callbacks registered with onAction(), e.g.
+ *   the InputHandler performing the keyboard shortcuts
+ *
+ * The right stick pans the camera. The crosshair is only drawn while a gamepad is
+ * connected.
+ */
+export class GamepadInput {
+    // Stick deflection ignored around the center (worn sticks never rest at zero)
+    public static readonly DEAD_ZONE = 0.15;
+    // Crosshair speed at full deflection, in screen pixels per second
+    public static readonly CURSOR_SPEED = 600;
+    // Camera speed at full deflection, in screen pixels per second
+    public static readonly PAN_SPEED = 600;
+    // Button value above which a button counts as pressed
+    public static readonly PRESS_THRESHOLD = 0.1;
+    // Shortest time in milliseconds between two bodies spawned by holding the button
+    public static readonly SPAWN_INTERVAL = 100;
+
+    // Core components
+    private engine: Engine;
+    private actions: InputActions;
+    private camera: Camera;
+    private actionMap: ActionMap;
+
+    // Crosshair position, in screen coordinates
+    private cursor: { x: number; y: number };
+    // Whether a gamepad was connected at the last poll
+    private connected: boolean = false;
+    // Values of the buttons at the last poll
+    private previousButtons: number[] = [];
+    // Deepest press of the repel buttons since they were pressed (0 when released)
+    private charge: number = 0;
+    // Time of the last poll and of the last body spawned
+    private lastPollTime: number | null = null;
+    private lastSpawnTime: number = -Infinity;
+
+    // Callbacks notified when a button bound to another action is pressed or released
+    private onActionCallbacks: ((action: ControlAction, pressed: boolean) => void)[] =
+        [];
+
+    /**
+     * GamepadInput constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param actions - Actions performed on the simulation
+     * @param camera - Camera converting the crosshair to world coordinates
+     * @param actionMap - Bindings of the gamepad buttons
+     */
+    constructor(
+        engine: Engine,
+        actions: InputActions,
+        camera: Camera,
+        actionMap: ActionMap,
+    ) {
+        this.engine = engine;
+        this.actions = actions;
+        this.camera = camera;
+        this.actionMap = actionMap;
+
+        // Start the crosshair in the middle of the view
+        const { width, height } = this.getViewSize();
+        this.cursor = { x: width / 2, y: height / 2 };
+
+        // Poll in the render loop and draw the crosshair on top of the scene
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.on(render, "beforeRender", this.poll);
+            Matter.Events.on(render, "afterRender", this.draw);
+        }
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops polling and removes every registered callback
+     */
+    public destroy(): void {
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.off(render, "beforeRender", this.poll);
+            Matter.Events.off(render, "afterRender", this.draw);
+        }
+
+        this.onActionCallbacks = [];
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Sets the bindings of the gamepad buttons
+     *
+     * @param actionMap - The bindings
+     */
+    public setActionMap(actionMap: ActionMap): void {
+        this.actionMap = actionMap;
+    }
+
+    /**
+     * Registers a callback function to be called when a button bound to an action
+     * other than repel, spawn and delete all is pressed or released
+     *
+     * @param callback - Function to call with the action, and true when pressed
+     */
+    public onAction(
+        callback: (action: ControlAction, pressed: boolean) => void,
+    ): void {
+        this.onActionCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a callback previously registered with onAction()
+     *
+     * @param callback - The callback to remove
+     */
+    public offAction(
+        callback: (action: ControlAction, pressed: boolean) => void,
+    ): void {
+        this.onActionCallbacks = this.onActionCallbacks.filter((registered) =>
+            registered !== callback
+        );
+    }
+
+    /**
+     * Gets the crosshair position
+     *
+     * @returns The position, in world coordinates
+     */
+    public getCursor(): { x: number; y: number } {
+        return this.camera.screenToWorld(this.cursor);
+    }
+
+    /**
+     * Checks if a gamepad is connected
+     *
+     * @returns True if a gamepad was found at the last poll
+     */
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Reads the first connected gamepad (Matter.js event handler)
+     */
+    private poll = (): void => {
+        const now = performance.now();
+        const elapsed = this.lastPollTime === null
+            ? 0
+            : (now - this.lastPollTime) / 1000;
+        this.lastPollTime = now;
+
+        const gamepad = GamepadInput.getGamepad();
+        this.connected = gamepad !== null;
+        if (!gamepad) {
+            this.previousButtons = [];
+            this.charge = 0;
+            return;
+        }
+
+        // Sticks: move the crosshair (left) and pan the camera (right)
+        const { width, height } = this.getViewSize();
+        const cursorSpeed = GamepadInput.CURSOR_SPEED * elapsed;
+        this.cursor = {
+            x: Math.min(
+                width,
+                Math.max(0, this.cursor.x + this.readAxis(gamepad, 0) * cursorSpeed),
+            ),
+            y: Math.min(
+                height,
+                Math.max(0, this.cursor.y + this.readAxis(gamepad, 1) * cursorSpeed),
+            ),
+        };
+        const panX = this.readAxis(gamepad, 2);
+        const panY = this.readAxis(gamepad, 3);
+        if (panX !== 0 || panY !== 0) {
+            const panSpeed = GamepadInput.PAN_SPEED * elapsed;
+            this.camera.pan(-panX * panSpeed, -panY * panSpeed);
+        }
+
+        // Buttons: act on presses and releases
+        const buttons = gamepad.buttons.map((button) => button.value);
+        let repelValue = 0;
+        let repelReleased = false;
+        buttons.forEach((value, index) => {
+            const pressed = value > GamepadInput.PRESS_THRESHOLD;
+            const wasPressed = (this.previousButtons[index] ?? 0) >
+                GamepadInput.PRESS_THRESHOLD;
+
+            for (const action of this.actionMap.matchGamepad(index)) {
+                if (action === "repel") {
+                    repelValue = Math.max(repelValue, pressed ? value : 0);
+                    repelReleased ||= wasPressed && !pressed;
+                } else if (pressed) {
+                    this.handleHeld(action, !wasPressed, now);
+                } else if (wasPressed) {
+                    this.notify(action, false);
+                }
+            }
+        });
+        this.previousButtons = buttons;
+
+        // Repel: charge while held, fire with the deepest press once all are released
+        this.charge = Math.max(this.charge, repelValue);
+        if (repelReleased && repelValue === 0 && this.charge > 0) {
+            this.actions.repel(this.getCursor(), this.charge);
+            this.charge = 0;
+        }
+    };
+
+    /**
+     * Handles a button held down
+     *
+     * @param action - Action bound to the button
+     * @param justPressed - True on the first poll the button is down
+     * @param now - Time of the poll
+     */
+    private handleHeld(
+        action: ControlAction,
+        justPressed: boolean,
+        now: number,
+    ): void {
+        switch (action) {
+            // Keep spawning while held, at a limited rate
+            case "spawn":
+                if (now - this.lastSpawnTime >= GamepadInput.SPAWN_INTERVAL) {
+                    this.actions.spawn(this.getCursor());
+                    this.lastSpawnTime = now;
+                }
+                break;
+            case "deleteAll":
+                if (justPressed) {
+                    this.actions.removeAt(this.getCursor(), true);
+                }
+                break;
+            // The right stick pans the camera
+            case "pan":
+                break;
+            default:
+                if (justPressed) {
+                    this.notify(action, true);
+                }
+        }
+    }
+
+    /**
+     * Reads a stick axis, ignoring the dead zone
+     *
+     * @param gamepad - The gamepad
+     * @param index - Axis index in the standard mapping
+     * @returns The deflection, from -1 to 1
+     */
+    private readAxis(gamepad: Gamepad, index: number): number {
+        const value = gamepad.axes[index] ?? 0;
+        if (Math.abs(value) < GamepadInput.DEAD_ZONE) {
+            return 0;
+        }
+
+        // Rescale so the deflection starts from zero at the edge of the dead zone
+        return Math.sign(value) * (Math.abs(value) - GamepadInput.DEAD_ZONE) /
+            (1 - GamepadInput.DEAD_ZONE);
+    }
+
+    /**
+     * Gets the size of the view, in screen pixels
+     *
+     * @returns The width and height
+     */
+    private getViewSize(): { width: number; height: number } {
+        const options = this.engine.getRender()?.options;
+        return { width: options?.width ?? 0, height: options?.height ?? 0 };
+    }
+
+    /**
+     * Finds the first connected gamepad
+     *
+     * @returns The gamepad, or null if none is connected (or the API is missing)
+     */
+    private static getGamepad(): Gamepad | null {
+        if (
+            typeof navigator === "undefined" ||
+            typeof navigator.getGamepads !== "function"
+        ) {
+            return null;
+        }
+        return navigator.getGamepads().find((gamepad) =>
+            gamepad?.connected
+        ) ?? null;
+    }
+
+    /**
+     * Draws the crosshair, growing with the repel charge (Matter.js event handler)
+     */
+    private draw = (): void => {
+        const render = this.engine.getRender();
+        if (!render || !this.connected) {
+            return;
+        }
+
+        // After rendering, the context draws in screen pixels
+        const context = render.context;
+        const { x, y } = this.cursor;
+        const radius = 10 + 10 * this.charge;
+
+        context.save();
+        context.strokeStyle = "rgba(0, 0, 0, 0.8)";
+        context.lineWidth = 2;
+        context.beginPath();
+        context.arc(x, y, radius, 0, 2 * Math.PI);
+        context.moveTo(x - radius - 5, y);
+        context.lineTo(x + radius + 5, y);
+        context.moveTo(x, y - radius - 5);
+        context.lineTo(x, y + radius + 5);
+        context.stroke();
+        context.restore();
+    };
+
+    /**
+     * Notifies all registered callbacks of a button bound to an action
+     *
+     * @param action - The action
+     * @param pressed - True when pressed, false when released
+     */
+    private notify(action: ControlAction, pressed: boolean): void {
+        this.onActionCallbacks.forEach((callback) => callback(action, pressed));
+    }
+}
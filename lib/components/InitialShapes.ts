@@ -28,6 +28,20 @@ export class InitialShapes {
     constructor(engine: Engine) {
         this.engine = engine;
         this.createShapes();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the shapes still in the world from the physics engine
+     */
+    public destroy(): void {
+        for (const shape of this.shapes) {
+            this.engine.removeBody(shape);
+        }
+        this.shapes = [];
+
+        this.engine.unregisterComponent(this);
     }
 
     /**
@@ -0,0 +1,420 @@
+/**
+ * InputActions.ts
+ *
+ * This file contains the InputActions class, which performs the actions users trigger
+ * through input (repelling, launching, spawning and removing bodies, changing the speed
+ * and the force model). Keeping them separate from
+ * the DOM event handling allows them to be recorded and replayed against an Engine.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "../core/Engine";
+import { ForceModel } from "../core/ForceModel";
+import { ForceModelOptions, InputAction, SpawnShape } from "../types";
+import { BodyFactory } from "./BodyFactory";
+import { DebugControl } from "./DebugControl";
+
+/**
+ * InputActions Class
+ *
+ * Executes input actions against the physics simulation and notifies registered
+ * callbacks of every action performed, e.g. for recording.
+ */
+export class InputActions {
+    // Core components
+    private engine: Engine;
+    private bodyFactory: BodyFactory;
+    private debugControl: DebugControl;
+    // How repelled bodies are pushed
+    private forceModel: ForceModel = new ForceModel();
+    // Callbacks notified of every action performed
+    private onActionCallbacks: ((action: InputAction) => void)[] = [];
+
+    /**
+     * InputActions constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param bodyFactory - Factory for creating physics bodies
+     * @param debugControl - Debug control for logging events
+     */
+    constructor(
+        engine: Engine,
+        bodyFactory: BodyFactory,
+        debugControl: DebugControl,
+    ) {
+        this.engine = engine;
+        this.bodyFactory = bodyFactory;
+        this.debugControl = debugControl;
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes every registered callback
+     */
+    public destroy(): void {
+        this.onActionCallbacks = [];
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Registers a callback function to be called for every action performed
+     *
+     * @param callback - Function to call with the action
+     */
+    public onAction(callback: (action: InputAction) => void): void {
+        this.onActionCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a callback previously registered with onAction()
+     *
+     * @param callback - The callback to remove
+     */
+    public offAction(callback: (action: InputAction) => void): void {
+        this.onActionCallbacks = this.onActionCallbacks.filter((registered) =>
+            registered !== callback
+        );
+    }
+
+    /**
+     * Performs an action and notifies the registered callbacks
+     *
+     * Callbacks are only notified when the action had an effect
+     * (e.g. a removal that found no body is not reported).
+     *
+     * @param action - The action to perform
+     * @returns True if the action had an effect
+     */
+    public execute(action: InputAction): boolean {
+        let performed = false;
+
+        switch (action.type) {
+            case "repel":
+                performed = this.performRepel(
+                    action.x,
+                    action.y,
+                    action.strength ?? 1,
+                );
+                break;
+            case "spawn":
+                performed = this.performSpawn(
+                    action.x,
+                    action.y,
+                    action.shape ?? "random",
+                );
+                break;
+            case "removeAt":
+                performed = this.performRemoveAt(action.x, action.y, action.all);
+                break;
+            case "removeFirst":
+                performed = this.performRemoveFirst();
+                break;
+            case "setTimeScale":
+                this.engine.setTimeScale(action.timeScale);
+                performed = true;
+                break;
+            case "launch":
+                performed = this.performLaunch(action.bodyId, {
+                    x: action.impulseX,
+                    y: action.impulseY,
+                });
+                break;
+            case "setForceModel":
+                this.forceModel = new ForceModel(action.model);
+                this.engine.emit("forceModelChange", { model: action.model });
+                performed = true;
+                break;
+        }
+
+        // Notify all registered callbacks about the action
+        if (performed) {
+            this.onActionCallbacks.forEach((callback) => callback(action));
+        }
+
+        return performed;
+    }
+
+    /**
+     * Applies a repelling force to the body at a point, following the force model
+     *
+     * @param point - Point in world coordinates
+     * @param strength - Fraction of the push, e.g. from an analog trigger (default: 1)
+     */
+    public repel(point: { x: number; y: number }, strength: number = 1): void {
+        this.execute(
+            strength === 1
+                ? { type: "repel", x: point.x, y: point.y }
+                : { type: "repel", x: point.x, y: point.y, strength: strength },
+        );
+    }
+
+    /**
+     * Launches a body with an impulse (slingshot shot)
+     *
+     * @param body - The dynamic body to launch
+     * @param impulse - Impulse applied to the body (change in momentum)
+     */
+    public launch(body: Matter.Body, impulse: { x: number; y: number }): void {
+        this.execute({
+            type: "launch",
+            bodyId: body.id,
+            impulseX: impulse.x,
+            impulseY: impulse.y,
+        });
+    }
+
+    /**
+     * Creates a body with a random size at a point
+     *
+     * @param point - Point in world coordinates
+     * @param shape - Shape of the body (default: a random shape)
+     */
+    public spawn(
+        point: { x: number; y: number },
+        shape: SpawnShape = "random",
+    ): void {
+        this.execute(
+            shape === "random"
+                ? { type: "spawn", x: point.x, y: point.y }
+                : { type: "spawn", x: point.x, y: point.y, shape: shape },
+        );
+    }
+
+    /**
+     * Removes dynamic bodies at a point
+     *
+     * @param point - Point in world coordinates
+     * @param all - Remove every dynamic body at the point, or only the first body found
+     */
+    public removeAt(point: { x: number; y: number }, all: boolean): void {
+        this.execute({ type: "removeAt", x: point.x, y: point.y, all: all });
+    }
+
+    /**
+     * Removes the first dynamic body found in the world
+     */
+    public removeFirst(): void {
+        this.execute({ type: "removeFirst" });
+    }
+
+    /**
+     * Changes the speed of the simulation
+     *
+     * @param timeScale - 1 for normal speed, below 1 for slow motion, above 1 to fast-forward
+     */
+    public setTimeScale(timeScale: number): void {
+        this.execute({ type: "setTimeScale", timeScale: timeScale });
+    }
+
+    /**
+     * Changes how repelled bodies are pushed
+     *
+     * @param model - Options of the force model (default options when empty)
+     */
+    public setForceModel(model: ForceModelOptions): void {
+        this.execute({ type: "setForceModel", model: model });
+    }
+
+    /**
+     * Gets the model of the repelling force
+     *
+     * @returns The force model
+     */
+    public getForceModel(): ForceModel {
+        return this.forceModel;
+    }
+
+    /**
+     * Gets a readable type for a body, used in debug logs
+     *
+     * @param body - The body
+     * @returns "Circle", "Polygon" or "Rectangle"
+     */
+    private describeBody(body: Matter.Body): string {
+        return body.circleRadius
+            ? "Circle"
+            : body.vertices
+            ? "Polygon"
+            : "Rectangle";
+    }
+
+    /**
+     * Pushes the dynamic body at a point away from the point, with a force or an
+     * impulse depending on the force model
+     *
+     * @param x - X position in world coordinates
+     * @param y - Y position in world coordinates
+     * @param strength - Fraction of the push given by the force model
+     * @returns True if a body was repelled
+     */
+    private performRepel(x: number, y: number, strength: number): boolean {
+        const point = { x, y };
+
+        // Find the first body that contains the point (goal sensors are not hit)
+        const clickedBody = Matter.Query.point(this.engine.getAllBodies(), point)
+            .find((body) => !body.isSensor);
+
+        // If no body or a static body (like a wall) was hit, do nothing
+        if (!clickedBody || clickedBody.isStatic) {
+            return false;
+        }
+
+        // Calculate the distance between the point and the body
+        const distance = Matter.Vector.magnitude(
+            Matter.Vector.sub(clickedBody.position, point),
+        );
+
+        this.engine.emit("shot", { body: clickedBody });
+
+        // Apply the force (or impulse) to the body
+        const force = this.forceModel.apply(clickedBody, point, strength);
+
+        this.engine.emit("bodyRepelled", {
+            body: clickedBody,
+            point: point,
+            force: force,
+        });
+
+        // Increment the attempts counter in the engine's game manager (if any)
+        this.engine.getGameManager()?.addAttempt();
+
+        // Log the repelling action if debug mode is enabled
+        this.debugControl.logEvent("Body Repelled", {
+            id: clickedBody.id,
+            type: this.describeBody(clickedBody),
+            position: {
+                x: clickedBody.position.x,
+                y: clickedBody.position.y,
+            },
+            force: force,
+            distance: distance,
+        });
+
+        return true;
+    }
+
+    /**
+     * Changes the velocity of a dynamic body by an impulse
+     *
+     * Heavier bodies are launched slower by the same impulse.
+     *
+     * @param bodyId - Id of the body
+     * @param impulse - Impulse applied to the body (change in momentum)
+     * @returns True if a body was launched
+     */
+    private performLaunch(
+        bodyId: number,
+        impulse: { x: number; y: number },
+    ): boolean {
+        const body = Matter.Composite.get(
+            this.engine.getWorld(),
+            bodyId,
+            "body",
+        ) as Matter.Body | null;
+
+        // If the body is gone, static, or being captured by a goal zone, do nothing
+        if (!body || body.isStatic || body.isSensor) {
+            return false;
+        }
+
+        this.engine.emit("shot", { body: body });
+
+        ForceModel.applyImpulse(body, impulse);
+
+        this.engine.emit("bodyLaunched", { body: body, impulse: impulse });
+
+        // Every release of the slingshot is an attempt
+        this.engine.getGameManager()?.addAttempt();
+
+        this.debugControl.logEvent("Body Launched", {
+            id: body.id,
+            type: this.describeBody(body),
+            impulse: impulse,
+        });
+
+        return true;
+    }
+
+    /**
+     * Creates a body with a random size at a point
+     *
+     * @param x - X position in world coordinates
+     * @param y - Y position in world coordinates
+     * @param shape - Shape of the body
+     * @returns Always true
+     */
+    private performSpawn(x: number, y: number, shape: SpawnShape): boolean {
+        const body = this.bodyFactory.createShape(shape, x, y);
+        this.engine.addBody(body);
+        return true;
+    }
+
+    /**
+     * Removes dynamic bodies at a point
+     *
+     * @param x - X position in world coordinates
+     * @param y - Y position in world coordinates
+     * @param all - Remove every dynamic body at the point, or only the first body found
+     * @returns True if at least one body was removed
+     */
+    private performRemoveAt(x: number, y: number, all: boolean): boolean {
+        // Find all bodies at the point (goal sensors are not hit)
+        const bodies = Matter.Query.point(this.engine.getAllBodies(), { x, y })
+            .filter((body) => !body.isSensor);
+
+        // Log the found bodies if debug mode is enabled
+        this.debugControl.logEvent("Query Bodies", {
+            bodies: bodies.map((body) => body.id),
+        });
+
+        // Only the first body found is considered when not removing all
+        const candidates = all ? bodies : bodies.slice(0, 1);
+        let removed = false;
+
+        for (const body of candidates) {
+            if (!body.isStatic) {
+                // Log the removal if debug mode is enabled
+                this.debugControl.logEvent("Object Removed", {
+                    id: body.id,
+                    type: this.describeBody(body),
+                    position: {
+                        x: body.position.x,
+                        y: body.position.y,
+                    },
+                });
+                // Remove the body from the physics engine
+                this.engine.removeBody(body);
+                removed = true;
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * Removes the first dynamic body found in the world
+     *
+     * @returns True if a body was removed
+     */
+    private performRemoveFirst(): boolean {
+        const body = this.engine.getAllBodies().find((body) => !body.isStatic);
+        if (!body) {
+            return false;
+        }
+
+        // Log the removal if debug mode is enabled
+        this.debugControl.logEvent("Object Removed (DEL key)", {
+            id: body.id,
+            type: this.describeBody(body),
+            position: {
+                x: body.position.x,
+                y: body.position.y,
+            },
+        });
+        // Remove the body from the physics engine
+        this.engine.removeBody(body);
+
+        return true;
+    }
+}
@@ -2,34 +2,104 @@
  * InputHandler.ts
  * 
  * This file contains the InputHandler class, which manages all user input interactions
- * with the physics simulation, including mouse and keyboard events. It provides functionality
- * for creating, manipulating, and removing physics bodies through user input.
+ * with the physics simulation, including pointer (mouse, pen and touch), keyboard and
+ * gamepad input. It provides functionality for creating, manipulating, and removing physics
+ * bodies through user input.
+ * Inputs are mapped to game actions through an ActionMap, so every control can be
+ * rebound. The actions themselves are performed through InputActions, so they can be
+ * recorded.
+ * Pointer positions are converted to world coordinates through a Camera, which the
+ * mouse wheel, middle button and two-finger gestures also control. In slingshot mode,
+ * bodies are shot by dragging them back and releasing instead of clicking them.
+ * The left button (and taps) can also use the other tools of a ToolPalette.
  */
 
 import Matter from "matter-js";
+import { ActionMap } from "../core/ActionMap";
+import { Camera } from "../core/Camera";
 import { Engine } from "../core/Engine";
+import { ControlAction, ShootingMode } from "../types";
+import { MemoryStorage } from "../utils/MemoryStorage";
 import { BodyFactory } from "./BodyFactory";
 import { DebugControl } from "./DebugControl";
-import { GameManager } from "../core/GameManager";
+import { GamepadInput } from "./GamepadInput";
+import { InputActions } from "./InputActions";
+import { Rewind } from "./Rewind";
+import { Slingshot } from "./Slingshot";
+import { ToolPalette } from "./ToolPalette";
+
+// A pointer (mouse button, pen or finger) pressed on the canvas
+interface ActivePointer {
+    // "mouse", "pen" or "touch"
+    type: string;
+    // Button pressed: 0 (left, also pens and touches), 1 (middle) or 2 (right)
+    button: number;
+    // Actions bound to the button when it was pressed
+    actions: ControlAction[];
+    // Position when pressed and current position (in screen coordinates)
+    start: { x: number; y: number };
+    position: { x: number; y: number };
+    // True once the pointer moved too far to be a tap
+    moved: boolean;
+    // True once a gesture (long press, pinch) used the press, so releasing does nothing
+    consumed: boolean;
+    // True if the selected tool (other than repel) handles the press
+    tool: boolean;
+    // Pending long press (touches and pens only)
+    longPressTimer: ReturnType<typeof setTimeout> | null;
+}
 
 /**
  * InputHandler Class
  * 
- * Handles all user input events (mouse and keyboard) and translates them into
+ * Handles all user input events (pointer and keyboard) and translates them into
  * actions in the physics simulation, such as creating new bodies, applying forces,
  * or removing existing bodies.
+ *
+ * Every pointer is tracked by its id, so several fingers can touch the canvas at
+ * once. Touches mirror the mouse:
+ * - Tap: uses the selected tool (repels the body by default), like a left click
+ * - Long press: removes the bodies under the finger, like a right click
+ * - Two fingers: pinch to zoom and drag to pan, like the wheel and middle button
  */
 export class InputHandler {
+    // Farthest a pointer can move (in screen pixels) and still be a tap
+    public static readonly TAP_DISTANCE = 10;
+    // Time in milliseconds a still pointer must be held down for a long press
+    public static readonly LONG_PRESS_DELAY = 500;
+    // Shortest time in milliseconds between two bodies spawned by dragging
+    public static readonly SPAWN_INTERVAL = 100;
+
     // Core components
     private engine: Engine;
-    private bodyFactory: BodyFactory;
     private debugControl: DebugControl;
-    // Mouse position
+    // Actions performed on the simulation (repel, spawn, remove)
+    private actions: InputActions;
+    // Camera used to convert screen positions to world positions
+    private camera: Camera;
+    // Mouse position (in world coordinates)
     private mousePosition: { x: number; y: number } = { x: 0, y: 0 };
+    // Last pointer position on the canvas (in screen coordinates)
+    private screenPosition: { x: number; y: number } = { x: 0, y: 0 };
+    // Pointers pressed on the canvas, by pointer id
+    private pointers: Map<number, ActivePointer> = new Map();
     // Canvas element
     private canvas: HTMLCanvasElement;
-    // Game manager for tracking player actions
-    private gameManager: GameManager;
+    // Whether the camera was created by (and is destroyed with) this handler
+    private ownsCamera: boolean;
+    // History used to undo shots and rewind (keyboard shortcuts disabled without it)
+    private rewind: Rewind | null = null;
+    // Drag-to-aim shooting, used in slingshot mode
+    private slingshot: Slingshot;
+    private shootingMode: ShootingMode = "click";
+    // Tools used by the repel binding (left button, taps) instead of repelling
+    private tools: ToolPalette;
+    // Time the last body was spawned by dragging
+    private lastSpawnTime: number = -Infinity;
+    // Inputs bound to each action (default bindings, not saved, until replaced)
+    private actionMap: ActionMap = new ActionMap(new MemoryStorage());
+    // Game controller input, with its virtual crosshair
+    private gamepad: GamepadInput;
 
     /**
      * InputHandler constructor
@@ -37,70 +107,183 @@ export class InputHandler {
      * @param engine - Reference to the physics engine
      * @param bodyFactory - Factory for creating physics bodies
      * @param debugControl - Debug control for logging events
+     * @param camera - Camera controlling the view (default: a new camera for the engine)
      */
     constructor(
         engine: Engine,
         bodyFactory: BodyFactory,
         debugControl: DebugControl,
+        camera?: Camera,
     ) {
         this.engine = engine;
-        this.bodyFactory = bodyFactory;
         this.debugControl = debugControl;
-        this.canvas = this.engine.getCanvas();
-        this.gameManager = GameManager.getInstance();
-        
+        this.actions = new InputActions(engine, bodyFactory, debugControl);
+
+        // Input needs a canvas to listen on, which headless engines do not have
+        const canvas = this.engine.getCanvas();
+        if (!canvas) {
+            throw new Error("InputHandler requires an Engine with a renderer");
+        }
+        this.canvas = canvas;
+        this.camera = camera ?? new Camera(engine);
+        this.ownsCamera = !camera;
+        this.slingshot = new Slingshot(engine, this.actions);
+        this.tools = new ToolPalette(engine, this.actions);
+        this.gamepad = new GamepadInput(
+            engine,
+            this.actions,
+            this.camera,
+            this.actionMap,
+        );
+        this.gamepad.onAction(this.handleGamepadAction);
+
         // Set up event listeners
         this.setupEventListeners();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes all event listeners, along with the actions and camera created by
+     * this handler
+     */
+    public destroy(): void {
+        this.canvas.removeEventListener("pointerdown", this.handlePointerDown);
+        this.canvas.removeEventListener("pointermove", this.handlePointerMove);
+        this.canvas.removeEventListener("pointerup", this.handlePointerUp);
+        this.canvas.removeEventListener("pointercancel", this.handlePointerCancel);
+        this.canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+        this.canvas.removeEventListener("contextmenu", this.handleContextMenu);
+        this.canvas.removeEventListener("wheel", this.handleWheel);
+        document.removeEventListener("keydown", this.handleKeyDown);
+        document.removeEventListener("keyup", this.handleKeyUp);
+
+        this.pointers.forEach((pointer) => this.cancelLongPress(pointer));
+        this.pointers.clear();
+
+        this.gamepad.destroy();
+        this.tools.destroy();
+        this.slingshot.destroy();
+        this.actions.destroy();
+        if (this.ownsCamera) {
+            this.camera.destroy();
+        }
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Gets the actions performed through this input handler
+     *
+     * @returns The InputActions instance, e.g. to record the actions
+     */
+    public getActions(): InputActions {
+        return this.actions;
+    }
+
+    /**
+     * Sets the history driven by the undo and rewind keyboard shortcuts
+     *
+     * @param rewind - The history, or null to disable the shortcuts
+     */
+    public setRewind(rewind: Rewind | null): void {
+        this.rewind?.stopRewind();
+        this.rewind = rewind;
+    }
+
+    /**
+     * Sets the bindings of the inputs to the actions
+     *
+     * @param actionMap - The bindings, e.g. loaded from localStorage
+     */
+    public setActionMap(actionMap: ActionMap): void {
+        this.actionMap = actionMap;
+        this.gamepad.setActionMap(actionMap);
+    }
+
+    /**
+     * Gets the bindings of the inputs to the actions
+     *
+     * @returns The ActionMap instance
+     */
+    public getActionMap(): ActionMap {
+        return this.actionMap;
+    }
+
+    /**
+     * Sets how a left click shoots
+     *
+     * @param mode - "click" to repel clicked bodies, "slingshot" to drag them back
+     */
+    public setShootingMode(mode: ShootingMode): void {
+        this.slingshot.cancelAim();
+        this.shootingMode = mode;
+    }
+
+    /**
+     * Gets how a left click shoots
+     *
+     * @returns The shooting mode
+     */
+    public getShootingMode(): ShootingMode {
+        return this.shootingMode;
+    }
+
+    /**
+     * Gets the tools used by the left button and taps
+     *
+     * @returns The ToolPalette instance, e.g. to select a tool
+     */
+    public getTools(): ToolPalette {
+        return this.tools;
+    }
+
+    /**
+     * Gets the camera controlled by this input handler
+     *
+     * @returns The Camera instance
+     */
+    public getCamera(): Camera {
+        return this.camera;
     }
 
     /**
      * Sets up all event listeners
      */
     private setupEventListeners(): void {
-        // Mouse down event - triggered when a mouse button is pressed
-        this.canvas.addEventListener(
-            "mousedown",
-            (event) => this.handleMouseDown(event),
-        );
+        // Let the page handle no touch gesture over the canvas (scrolling, zooming)
+        this.canvas.style.touchAction = "none";
 
-        // Mouse up event - triggered when a mouse button is released
-        this.canvas.addEventListener(
-            "mouseup",
-            (event) => this.handleMouseUp(event),
-        );
-
-        // Click event - triggered after a complete click (down and up)
-        this.canvas.addEventListener(
-            "click",
-            (event) => this.handleClick(event),
-        );
+        // Pointer events - triggered by mice, pens and touches alike
+        this.canvas.addEventListener("pointerdown", this.handlePointerDown);
+        this.canvas.addEventListener("pointermove", this.handlePointerMove);
+        this.canvas.addEventListener("pointerup", this.handlePointerUp);
+        // Pointer cancel event - triggered when the browser takes over a pointer
+        this.canvas.addEventListener("pointercancel", this.handlePointerCancel);
+        // Pointer leave event - triggered when the pointer leaves the canvas
+        this.canvas.addEventListener("pointerleave", this.handlePointerLeave);
 
-        // Context menu event - triggered on right-click
-        this.canvas.addEventListener(
-            "contextmenu",
-            (event) => this.handleContextMenu(event),
-        );
+        // Context menu event - triggered on right-click (and long press on some devices)
+        this.canvas.addEventListener("contextmenu", this.handleContextMenu);
 
-        // Mouse move event - triggered when the mouse moves
-        this.canvas.addEventListener(
-            "mousemove",
-            (event) => this.handleMouseMove(event),
-        );
+        // Wheel event - triggered when scrolling over the canvas
+        // (not passive, so the page does not scroll while zooming)
+        this.canvas.addEventListener("wheel", this.handleWheel, {
+            passive: false,
+        });
 
-        // Keyboard events - triggered when a key is pressed
-        document.addEventListener(
-            "keydown",
-            (event) => this.handleKeyDown(event),
-        );
+        // Keyboard events - triggered when a key is pressed or released
+        document.addEventListener("keydown", this.handleKeyDown);
+        document.addEventListener("keyup", this.handleKeyUp);
     }
 
     /**
-     * Gets the mouse position relative to the canvas
+     * Gets the pointer position relative to the canvas
      * 
-     * @param event - Mouse event
-     * @returns Object with x and y coordinates
+     * @param event - Mouse or pointer event
+     * @returns Object with x and y coordinates in screen pixels
      */
-    private getMousePosition(event: MouseEvent): { x: number; y: number } {
+    private getScreenPosition(event: MouseEvent): { x: number; y: number } {
         const rect = this.canvas.getBoundingClientRect();
         return {
             x: event.clientX - rect.left,
@@ -109,156 +292,421 @@ export class InputHandler {
     }
 
     /**
-     * Handles mouse down events
+     * Gets the pointer position in the world, taking the camera into account
+     * 
+     * @param event - Mouse or pointer event
+     * @returns Object with x and y coordinates in world units
+     */
+    private getMousePosition(event: MouseEvent): { x: number; y: number } {
+        return this.camera.screenToWorld(this.getScreenPosition(event));
+    }
+
+    /**
+     * Gets a readable name for a pointer button, used in debug logs
+     *
+     * @param button - Button number
+     * @returns "Left", "Middle" or "Right"
+     */
+    private describeButton(button: number): string {
+        return button === 0 ? "Left" : button === 1 ? "Middle" : "Right";
+    }
+
+    /**
+     * Finds the actions bound to the button of a pointer event
+     *
+     * Touches and pens count as the left button.
+     *
+     * @param event - The pointer event
+     * @returns The actions
+     */
+    private getPointerActions(event: PointerEvent): ControlAction[] {
+        return this.actionMap.matchMouse(
+            event.pointerType === "mouse" ? event.button : 0,
+            event.ctrlKey,
+        );
+    }
+
+    /**
+     * Gets the touches currently on the canvas
+     *
+     * @returns The touch pointers, by pointer id
+     */
+    private getTouches(): [number, ActivePointer][] {
+        return [...this.pointers].filter(([, pointer]) =>
+            pointer.type === "touch"
+        );
+    }
+
+    /**
+     * Handles pointer down events
      * 
-     * For right-click (button 2), removes non-static bodies at the click position.
+     * With the default bindings (see ActionMap.DEFAULT_BINDINGS):
+     * Right button: removes the dynamic bodies at the pointer position
+     * Middle button: starts panning the camera
+     * Left button in slingshot mode: starts aiming the body under the pointer
+     * Left button with a tool other than repel: uses the tool instead
+     * Touch or pen: also starts the long press timer
+     * Second finger: starts a pinch, cancelling what the first finger was doing
      * 
-     * @param event - The mouse event
+     * @param event - The pointer event
      */
-    private handleMouseDown(event: MouseEvent): void {
-        // Log the mouse down event if debug mode is enabled
-        this.debugControl.logEvent("Mouse Down", {
+    private handlePointerDown = (event: PointerEvent): void => {
+        this.screenPosition = this.getScreenPosition(event);
+        const worldPosition = this.camera.screenToWorld(this.screenPosition);
+
+        // Keep receiving the pointer's events when it leaves the canvas
+        this.canvas.setPointerCapture(event.pointerId);
+
+        const pointer: ActivePointer = {
+            type: event.pointerType,
+            button: event.button,
+            actions: this.getPointerActions(event),
+            start: this.screenPosition,
+            position: this.screenPosition,
+            moved: false,
+            consumed: false,
+            tool: false,
+            longPressTimer: null,
+        };
+        this.pointers.set(event.pointerId, pointer);
+
+        // Log the pointer down event if debug mode is enabled
+        this.debugControl.logEvent("Pointer Down", {
+            id: event.pointerId,
+            type: event.pointerType,
             x: event.clientX,
             y: event.clientY,
-            button: event.button === 0
-                ? "Left"
-                : event.button === 1
-                ? "Middle"
-                : "Right",
+            button: this.describeButton(event.button),
         });
 
-        // Handle right-click (button 2)
-        if (event.button === 2) {
-            // Find all bodies at the click position
-            const bodies = Matter.Query.point(this.engine.getAllBodies(), {
-                x: event.clientX,
-                y: event.clientY,
+        // Handle a second finger: the touches now pinch and pan the camera
+        const touches = this.getTouches();
+        if (touches.length >= 2) {
+            this.slingshot.cancelAim();
+            this.tools.release();
+            touches.forEach(([, touch]) => {
+                this.cancelLongPress(touch);
+                touch.consumed = true;
             });
+            return;
+        }
 
-            // Log the found bodies if debug mode is enabled
-            this.debugControl.logEvent("Query Bodies", {
-                bodies: bodies.map((body) => body.id),
-            });
+        // Handle delete all: remove all dynamic bodies at the position
+        if (pointer.actions.includes("deleteAll")) {
+            this.actions.removeAt(worldPosition, true);
+        }
 
-            // Remove all non-static bodies at the click position
-            for (const body of bodies) {
-                if (!body.isStatic) {
-                    // Log the removal if debug mode is enabled
-                    this.debugControl.logEvent("Object Removed", {
-                        id: body.id,
-                        type: body.circleRadius
-                            ? "Circle"
-                            : body.vertices
-                            ? "Polygon"
-                            : "Rectangle",
-                        position: {
-                            x: body.position.x,
-                            y: body.position.y,
-                        },
-                    });
-                    // Remove the body from the physics engine
-                    this.engine.removeBody(body);
-                }
+        // Handle pan: prevent auto-scrolling (of the middle button) while panning
+        if (pointer.actions.includes("pan")) {
+            event.preventDefault();
+        }
+
+        // Handle repel with another tool: the tool handles the press instead
+        if (
+            pointer.actions.includes("repel") &&
+            this.tools.getTool() !== "repel"
+        ) {
+            pointer.tool = true;
+            pointer.actions = pointer.actions.filter((action) =>
+                action !== "repel" && action !== "spawn"
+            );
+            this.tools.press(worldPosition, event.shiftKey);
+        }
+
+        // Handle repel in slingshot mode: grab the body to aim it
+        if (
+            pointer.actions.includes("repel") &&
+            !pointer.actions.includes("spawn") &&
+            this.shootingMode === "slingshot"
+        ) {
+            this.slingshot.beginAim(worldPosition);
+        }
+
+        // Holding a finger or pen still removes the bodies under it (unless a tool
+        // uses the press, e.g. to hold a body still)
+        if (event.pointerType !== "mouse" && !pointer.tool) {
+            pointer.longPressTimer = setTimeout(
+                () => this.handleLongPress(pointer),
+                InputHandler.LONG_PRESS_DELAY,
+            );
+        }
+    };
+
+    /**
+     * Handles pointer move events
+     * 
+     * Delete all drag (right button): Removes bodies as the pointer moves over them
+     * Spawn drag (Ctrl+Left): Creates random bodies along the path
+     * Pan drag (middle button): Pans the camera
+     * Repel drag (left button) in slingshot mode: Aims the grabbed body
+     * Left button drag with a tool other than repel: Keeps using the tool
+     * Two-finger drag: Pans and zooms the camera
+     * Any move: Highlights the body under the pointer
+     * 
+     * @param event - The pointer event
+     */
+    private handlePointerMove = (event: PointerEvent): void => {
+        // Track the cursor on screen (used for keyboard shortcuts)
+        this.screenPosition = this.getScreenPosition(event);
+        this.mousePosition = this.camera.screenToWorld(this.screenPosition);
+        this.tools.hover(this.mousePosition);
+
+        // Only process pointers pressed on the canvas
+        const pointer = this.pointers.get(event.pointerId);
+        if (!pointer) {
+            return;
+        }
+
+        const previousPosition = pointer.position;
+        pointer.position = this.screenPosition;
+        if (
+            !pointer.moved &&
+            Matter.Vector.magnitude(
+                    Matter.Vector.sub(pointer.position, pointer.start),
+                ) > InputHandler.TAP_DISTANCE
+        ) {
+            pointer.moved = true;
+            this.cancelLongPress(pointer);
+        }
+
+        // Handle two-finger gestures (pinch and pan the camera)
+        const touches = this.getTouches();
+        if (pointer.type === "touch" && touches.length >= 2) {
+            const other = touches.find(([id]) => id !== event.pointerId);
+            if (other) {
+                this.handlePinch(previousPosition, pointer.position, other[1]);
             }
+            return;
+        }
+
+        if (pointer.consumed) {
+            return;
+        }
+
+        const button = this.describeButton(pointer.button);
+
+        // Log the pointer move event if debug mode is enabled
+        this.debugControl.logEvent(`${button} Pointer Move (while pressed)`, {
+            id: event.pointerId,
+            x: event.clientX,
+            y: event.clientY,
+            button: button,
+        });
+
+        // Handle pan drag (pan the camera)
+        if (pointer.actions.includes("pan")) {
+            this.camera.pan(
+                pointer.position.x - previousPosition.x,
+                pointer.position.y - previousPosition.y,
+            );
+        }
+
+        // Handle a tool drag (rotate, spawn or erase along the path)
+        if (pointer.tool) {
+            this.tools.drag(this.mousePosition, pointer.moved);
         }
-    }
+
+        // Handle delete all drag (remove the first body found)
+        if (pointer.actions.includes("deleteAll")) {
+            this.actions.removeAt(this.mousePosition, false);
+        }
+
+        // Handle repel drag while aiming (update the aim)
+        if (pointer.actions.includes("repel") && this.slingshot.isAiming()) {
+            this.slingshot.updateAim(this.mousePosition);
+        }
+
+        // Handle spawn drag (create bodies)
+        if (
+            pointer.actions.includes("spawn") &&
+            pointer.moved &&
+            !this.slingshot.isAiming()
+        ) {
+            // Limit the creation rate to avoid creating too many bodies
+            const currentTime = Date.now();
+            if (currentTime - this.lastSpawnTime >= InputHandler.SPAWN_INTERVAL) {
+                // Create a random body at the current pointer position
+                this.actions.spawn(this.mousePosition);
+                this.lastSpawnTime = currentTime;
+            }
+        }
+    };
 
     /**
-     * Handles mouse up events
+     * Handles pointer up events
      * 
-     * Currently only logs the event if debug mode is enabled.
+     * Releasing the repel button (or lifting a finger) launches the body being
+     * aimed, or taps when the pointer barely moved:
+     * Repel tap (left button): Applies a repelling force to the tapped body (click mode only)
+     * Spawn tap (Ctrl+Left): Creates a random body in empty space
      * 
-     * @param event - The mouse event
+     * @param event - The pointer event
      */
-    private handleMouseUp(event: MouseEvent): void {
-        // Log the mouse up event if debug mode is enabled
-        this.debugControl.logEvent("Mouse Up", {
+    private handlePointerUp = (event: PointerEvent): void => {
+        const pointer = this.pointers.get(event.pointerId);
+        if (!pointer) {
+            return;
+        }
+        this.pointers.delete(event.pointerId);
+        this.cancelLongPress(pointer);
+        if (pointer.tool) {
+            this.tools.release();
+        }
+
+        // Log the pointer up event if debug mode is enabled
+        this.debugControl.logEvent("Pointer Up", {
+            id: event.pointerId,
+            type: event.pointerType,
             x: event.clientX,
             y: event.clientY,
-            button: event.button === 0
-                ? "Left"
-                : event.button === 1
-                ? "Middle"
-                : "Right",
+            button: this.describeButton(pointer.button),
         });
-    }
+
+        if (pointer.consumed) {
+            return;
+        }
+
+        if (pointer.actions.includes("repel") && this.slingshot.isAiming()) {
+            this.slingshot.release();
+        } else if (!pointer.moved) {
+            this.handleTap(this.getMousePosition(event), pointer.actions);
+        }
+    };
 
     /**
-     * Handles click events
+     * Handles pointer cancel events
      * 
-     * Left-click: Applies a repelling force to clicked bodies
-     * Ctrl+Left-click: Creates a random body at the click position
+     * Forgets the pointer without acting, e.g. when the browser starts scrolling.
      * 
-     * @param event - The mouse event
+     * @param event - The pointer event
      */
-    private handleClick(event: MouseEvent): void {
-        // Get the mouse position relative to the canvas
-        const mousePosition = this.getMousePosition(event);
-        // Store the mouse position for use in other methods
-        this.mousePosition = mousePosition;
+    private handlePointerCancel = (event: PointerEvent): void => {
+        const pointer = this.pointers.get(event.pointerId);
+        if (!pointer) {
+            return;
+        }
+        this.pointers.delete(event.pointerId);
+        this.cancelLongPress(pointer);
 
-        // Get all bodies in the simulation
-        const allBodies = this.engine.getAllBodies();
+        if (pointer.actions.includes("repel")) {
+            this.slingshot.cancelAim();
+        }
+        if (pointer.tool) {
+            this.tools.release();
+        }
+    };
 
-        // Find the first body that contains the mouse position
-        const clickedBody = Matter.Query.point(allBodies, mousePosition)[0];
+    /**
+     * Handles pointer leave events
+     * 
+     * Stops highlighting the body under the pointer.
+     */
+    private handlePointerLeave = (): void => {
+        this.tools.hover(null);
+    };
 
-        // If a body was clicked
-        if (clickedBody) {
+    /**
+     * Handles a tap (or a click that did not move)
+     * 
+     * Tapping a dynamic body repels it, unless the slingshot shoots instead. Tapping
+     * empty space spawns a body.
+     * 
+     * @param point - Tapped point in world coordinates
+     * @param actions - Actions bound to the button
+     */
+    private handleTap(
+        point: { x: number; y: number },
+        actions: ControlAction[],
+    ): void {
+        // Store the position for use in other methods
+        this.mousePosition = point;
+
+        // Find the first body that contains the tapped point (goal sensors are
+        // not hit)
+        const tappedBody = Matter.Query.point(
+            this.engine.getAllBodies(),
+            point,
+        ).find((body) => !body.isSensor);
+
+        // If a body was tapped
+        if (tappedBody) {
             // If the body is static (like a wall), do nothing
-            if (clickedBody.isStatic) {
+            if (tappedBody.isStatic) {
                 return;
             }
 
-            // Calculate the direction from the mouse to the body
-            const direction = Matter.Vector.sub(
-                clickedBody.position,
-                mousePosition,
-            );
-            // Normalize the direction vector
-            const normalizedDirection = Matter.Vector.normalise(direction);
-            // Calculate the distance between the mouse and the body
-            const distance = Matter.Vector.magnitude(direction);
-            // Calculate the force to apply (proportional to distance)
-            const force = Matter.Vector.mult(
-                normalizedDirection,
-                distance * 0.015,
-            );
-
-            // Apply the force to the body
-            Matter.Body.applyForce(
-                clickedBody,
-                clickedBody.position,
-                force,
-            );
-            
-            // Increment the attempts counter in the game manager
-            this.gameManager.addAttempt();
-
-            // Log the repelling action if debug mode is enabled
-            this.debugControl.logEvent("Body Repelled", {
-                id: clickedBody.id,
-                type: clickedBody.circleRadius
-                    ? "Circle"
-                    : clickedBody.vertices
-                    ? "Polygon"
-                    : "Rectangle",
-                position: {
-                    x: clickedBody.position.x,
-                    y: clickedBody.position.y,
-                },
-                force: force,
-                distance: distance,
-            });
-        } else {
-            // If Ctrl key is pressed and no body was clicked, create a random body
-            if (event.ctrlKey) {
-                const randomBody = this.bodyFactory.createRandomBody(
-                    event.clientX,
-                    event.clientY,
-                );
-                this.engine.addBody(randomBody);
+            // Apply a repelling force to the body (the slingshot shoots on release)
+            if (actions.includes("repel") && this.shootingMode === "click") {
+                this.actions.repel(point);
             }
+        } else if (actions.includes("spawn")) {
+            // Create a random body in empty space
+            this.actions.spawn(point);
+        }
+    }
+
+    /**
+     * Handles a finger or pen held still on the canvas
+     * 
+     * Removes all dynamic bodies under the pointer, like a right-click.
+     * 
+     * @param pointer - The pointer held down
+     */
+    private handleLongPress(pointer: ActivePointer): void {
+        pointer.longPressTimer = null;
+        pointer.consumed = true;
+        this.slingshot.cancelAim();
+
+        this.debugControl.logEvent("Long Press - Objects Removed", {
+            type: pointer.type,
+            x: pointer.position.x,
+            y: pointer.position.y,
+        });
+
+        this.actions.removeAt(this.camera.screenToWorld(pointer.position), true);
+    }
+
+    /**
+     * Pans and zooms the camera as one of two fingers moves
+     * 
+     * The view follows the midpoint of the fingers and scales with their distance.
+     * 
+     * @param from - Previous position of the moving finger (screen coordinates)
+     * @param to - New position of the moving finger (screen coordinates)
+     * @param other - The other finger
+     */
+    private handlePinch(
+        from: { x: number; y: number },
+        to: { x: number; y: number },
+        other: ActivePointer,
+    ): void {
+        const previousCenter = Matter.Vector.div(
+            Matter.Vector.add(from, other.position),
+            2,
+        );
+        const center = Matter.Vector.div(Matter.Vector.add(to, other.position), 2);
+        this.camera.pan(center.x - previousCenter.x, center.y - previousCenter.y);
+
+        const previousDistance = Matter.Vector.magnitude(
+            Matter.Vector.sub(from, other.position),
+        );
+        const distance = Matter.Vector.magnitude(
+            Matter.Vector.sub(to, other.position),
+        );
+        if (previousDistance > 0 && distance > 0) {
+            this.camera.zoomAt(center, distance / previousDistance);
+        }
+    }
+
+    /**
+     * Stops waiting for a long press
+     * 
+     * @param pointer - The pointer
+     */
+    private cancelLongPress(pointer: ActivePointer): void {
+        if (pointer.longPressTimer !== null) {
+            clearTimeout(pointer.longPressTimer);
+            pointer.longPressTimer = null;
         }
     }
 
@@ -269,7 +717,7 @@ export class InputHandler {
      * 
      * @param event - The mouse event
      */
-    private handleContextMenu(event: MouseEvent): void {
+    private handleContextMenu = (event: MouseEvent): void => {
         // Prevent the default context menu from appearing
         event.preventDefault();
         // Log the right-click event if debug mode is enabled
@@ -278,101 +726,203 @@ export class InputHandler {
             y: event.clientY,
             button: "Right",
         });
-    }
+    };
 
     /**
-     * Handles mouse move events
+     * Handles wheel events
      * 
-     * Right-click+drag: Removes bodies as the mouse moves over them
-     * Ctrl+Left-click+drag: Creates random bodies along the mouse path
+     * Scrolling up zooms in and scrolling down zooms out, around the cursor.
      * 
-     * @param event - The mouse event
+     * @param event - The wheel event
      */
-    private handleMouseMove(event: MouseEvent): void {
-        // Only process if a mouse button is pressed
-        if (event.buttons > 0) {
-            // Determine which button is pressed
-            const button = event.buttons === 1
-                ? "Left"
-                : event.buttons === 4
-                ? "Middle"
-                : "Right";
-
-            // Log the mouse move event if debug mode is enabled
-            this.debugControl.logEvent(`${button} Mouse Move (while pressed)`, {
-                x: event.clientX,
-                y: event.clientY,
-                button: button,
-            });
+    private handleWheel = (event: WheelEvent): void => {
+        event.preventDefault();
+        this.camera.zoomAt(
+            this.getScreenPosition(event),
+            event.deltaY < 0 ? 1.1 : 1 / 1.1,
+        );
+    };
+
+    /**
+     * Handles keyboard events
+     * 
+     * Performs the actions bound to the key (see ActionMap.DEFAULT_BINDINGS for the
+     * default keys), unless it is typed in a text field.
+     * 
+     * @param event - The keyboard event
+     */
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        // Leave the keys typed in text fields (e.g. the inspector) to the fields
+        if (InputHandler.isEditable(event.target)) {
+            return;
+        }
+
+        const actions = this.actionMap.matchKey(event.key, event.ctrlKey);
+        if (actions.length === 0) {
+            return;
+        }
+
+        // Prevent the browser's own shortcut (e.g. Space scrolling the page)
+        event.preventDefault();
+        actions.forEach((action) => this.performAction(action, event.repeat));
+    };
 
-            // Handle right-click drag (remove bodies)
-            if (button === "Right") {
-                // Find all bodies at the current mouse position
-                const bodies = Matter.Query.point(this.engine.getAllBodies(), {
-                    x: event.clientX,
-                    y: event.clientY,
-                });
-
-                // Remove the first non-static body found
-                if (bodies.length > 0 && !bodies[0].isStatic) {
-                    this.engine.removeBody(bodies[0]);
+    /**
+     * Handles key release events
+     * 
+     * Rewind: Stops rewinding
+     * 
+     * @param event - The keyboard event
+     */
+    private handleKeyUp = (event: KeyboardEvent): void => {
+        if (InputHandler.isEditable(event.target)) {
+            return;
+        }
+
+        this.actionMap.matchKey(event.key, event.ctrlKey).forEach((action) =>
+            this.releaseAction(action)
+        );
+    };
+
+    /**
+     * Handles gamepad buttons bound to actions that do not depend on the pointer
+     * 
+     * @param action - The action
+     * @param pressed - True when the button is pressed, false when released
+     */
+    private handleGamepadAction = (
+        action: ControlAction,
+        pressed: boolean,
+    ): void => {
+        if (pressed) {
+            this.performAction(action, false);
+        } else {
+            this.releaseAction(action);
+        }
+    };
+
+    /**
+     * Performs an action that does not depend on the pointer
+     * 
+     * Delete: Removes the first non-static body found in the world
+     * Pause: Pauses or resumes the physics
+     * Step: Advances a single physics update while paused
+     * Slower and Faster: Halves or doubles the simulation speed
+     * Reset speed: Resets the simulation speed to normal
+     * Follow: Follows the body under the cursor (or stops following)
+     * Fit all: Fits all bodies in view
+     * Reset camera: Resets the camera
+     * Undo: Undoes the last shot
+     * Rewind (held): Plays the simulation backwards
+     * Cancel aim: Cancels the slingshot aim
+     * Restart: Restarts the game of the engine's game manager
+     * 
+     * Pointer actions (repel, spawn, delete all, pan) are ignored.
+     * 
+     * @param action - The action
+     * @param repeat - True if the input is repeated while held down
+     */
+    private performAction(action: ControlAction, repeat: boolean): void {
+        switch (action) {
+            // Delete the selected bodies, or the first body when none is selected
+            case "delete":
+                if (this.tools.getSelection().getBodies().length > 0) {
+                    this.tools.getSelection().remove();
+                } else {
+                    this.actions.removeFirst();
                 }
-            }
+                break;
 
-            // Handle Ctrl+Left-click drag (create bodies)
-            if (button === "Left" && event.ctrlKey) {
-                // Limit the creation rate to avoid creating too many bodies
-                const currentTime = Date.now();
-                if (
-                    !(window as any).lastCreationTime ||
-                    currentTime - (window as any).lastCreationTime >= 100
-                ) {
-                    // Create a random body at the current mouse position
-                    const randomBody = this.bodyFactory.createRandomBody(
-                        event.clientX,
-                        event.clientY,
-                    );
-                    this.engine.addBody(randomBody);
-                    // Update the last creation time
-                    (window as any).lastCreationTime = currentTime;
+            case "pause":
+                if (this.engine.isPaused()) {
+                    this.engine.resume();
+                } else {
+                    this.engine.pause();
                 }
+                break;
+
+            // Single step, only meaningful while paused
+            case "step":
+                if (this.engine.isPaused()) {
+                    this.engine.stepOnce();
+                }
+                break;
+
+            // Slow motion and fast-forward
+            case "slower":
+                this.actions.setTimeScale(this.engine.getTimeScale() / 2);
+                break;
+            case "faster":
+                this.actions.setTimeScale(this.engine.getTimeScale() * 2);
+                break;
+            case "resetSpeed":
+                this.actions.setTimeScale(1);
+                break;
+
+            // Camera controls
+            case "follow": {
+                const body = Matter.Query.point(
+                    this.engine.getAllBodies(),
+                    this.camera.screenToWorld(this.screenPosition),
+                ).find((candidate) =>
+                    !candidate.isStatic && !candidate.isSensor
+                );
+                this.camera.follow(body ?? null);
+                break;
             }
+            case "fitAll":
+                this.camera.fitAll();
+                break;
+            case "resetCamera":
+                this.camera.reset();
+                break;
+
+            // Undo and rewind
+            case "undo":
+                this.rewind?.undo();
+                break;
+            case "rewind":
+                // Ignore the repeat while the input is held down
+                if (!repeat) {
+                    this.rewind?.startRewind();
+                }
+                break;
+
+            // Slingshot
+            case "cancelAim":
+                this.slingshot.cancelAim();
+                break;
+
+            case "restart":
+                this.engine.getGameManager()?.restart();
+                break;
         }
     }
 
     /**
-     * Handles keyboard events
+     * Ends an action held down
      * 
-     * Delete key: Removes the first non-static body found in the world
+     * Rewind: Stops rewinding
      * 
-     * @param event - The keyboard event
+     * @param action - The action
      */
-    private handleKeyDown(event: KeyboardEvent): void {
-        // Handle Delete key press
-        if (event.key === "Delete") {
-            // Get all bodies in the world
-            const bodies = this.engine.getAllBodies();
-            // Find and remove the first non-static body
-            for (const body of bodies) {
-                if (!body.isStatic) {
-                    // Log the removal if debug mode is enabled
-                    this.debugControl.logEvent("Object Removed (DEL key)", {
-                        id: body.id,
-                        type: body.circleRadius
-                            ? "Circle"
-                            : body.vertices
-                            ? "Polygon"
-                            : "Rectangle",
-                        position: {
-                            x: body.position.x,
-                            y: body.position.y,
-                        },
-                    });
-                    // Remove the body from the physics engine
-                    this.engine.removeBody(body);
-                    break;
-                }
-            }
+    private releaseAction(action: ControlAction): void {
+        if (action === "rewind") {
+            this.rewind?.stopRewind();
+        }
+    }
+
+    /**
+     * Checks if an event target takes typed text, like an input or a text area
+     *
+     * @param target - The event target
+     * @returns True for text fields, selects and editable elements
+     */
+    private static isEditable(target: EventTarget | null): boolean {
+        if (typeof HTMLElement === "undefined" || !(target instanceof HTMLElement)) {
+            return false;
         }
+        return target.isContentEditable ||
+            ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName);
     }
 }
@@ -0,0 +1,264 @@
+/**
+ * InputRecorder.ts
+ *
+ * This file contains the InputRecorder class, which records every input action performed
+ * on the simulation together with the tick it happened on. A recording starts with a
+ * snapshot of the world, so it can be replayed exactly against a fresh Engine.
+ */
+
+import { Engine } from "../core/Engine";
+import {
+    InputAction,
+    InputRecording,
+    RecordedAction,
+    WorldSnapshot,
+} from "../types";
+import { InputActions } from "./InputActions";
+
+/**
+ * InputRecorder Class
+ *
+ * Listens to the actions performed through InputActions and stores them with the
+ * current simulation tick while recording.
+ *
+ * Changes made outside InputActions cannot be replayed: bodies dragged, rotated or
+ * edited in the inspector (the engine's bodyEdited event), a restarted game, or a
+ * restored snapshot. They mark the recording as diverged, so the UI can warn that
+ * it no longer matches what happened. Undo and rewind are disabled while recording
+ * (see Rewind), through the engine's recordingChange event.
+ */
+export class InputRecorder {
+    // Version of the recording format written by stop()
+    public static readonly RECORDING_VERSION = 2;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // The actions being recorded
+    private inputActions: InputActions;
+    // World at the start of the current recording
+    private snapshot: WorldSnapshot | null = null;
+    // Actions recorded so far
+    private actions: RecordedAction[] = [];
+    // Level stored in the recordings, checked before they are replayed
+    private levelId: string | undefined;
+    // True once the world changed in a way the recording cannot replay
+    private diverged: boolean = false;
+
+    // Callbacks notified when the recording state changes
+    private onChangeCallbacks: (() => void)[] = [];
+
+    /**
+     * InputRecorder constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param inputActions - The actions to record
+     * @param levelId - Level being played, if any
+     */
+    constructor(engine: Engine, inputActions: InputActions, levelId?: string) {
+        this.engine = engine;
+        this.inputActions = inputActions;
+        this.levelId = levelId;
+        this.inputActions.onAction(this.handleAction);
+        this.engine.on("bodyEdited", this.handleDivergence);
+        this.engine.on("restart", this.handleDivergence);
+        this.engine.on("restore", this.handleDivergence);
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Discards any recording in progress and stops listening to actions
+     */
+    public destroy(): void {
+        this.onChangeCallbacks = [];
+        this.stop();
+        this.inputActions.offAction(this.handleAction);
+        this.engine.off("bodyEdited", this.handleDivergence);
+        this.engine.off("restart", this.handleDivergence);
+        this.engine.off("restore", this.handleDivergence);
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Registers a callback function to be called when a recording starts, stops
+     * or diverges
+     *
+     * @param callback - Function to call
+     */
+    public onChange(callback: () => void): void {
+        this.onChangeCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a callback previously registered with onChange()
+     *
+     * @param callback - The callback to remove
+     */
+    public offChange(callback: () => void): void {
+        this.onChangeCallbacks = this.onChangeCallbacks.filter((registered) =>
+            registered !== callback
+        );
+    }
+
+    /**
+     * Starts a new recording from the current state of the world
+     *
+     * The force model in use is not part of the snapshot, so it is recorded as
+     * the first action.
+     */
+    public start(): void {
+        this.snapshot = this.engine.serialize();
+        this.actions = [{
+            tick: this.engine.getTick(),
+            action: {
+                type: "setForceModel",
+                model: this.inputActions.getForceModel().getOptions(),
+            },
+        }];
+        this.diverged = false;
+
+        this.engine.emit("recordingChange", { recording: true });
+        this.notify();
+    }
+
+    /**
+     * Stops the current recording
+     *
+     * @returns The recording, or null if not recording
+     */
+    public stop(): InputRecording | null {
+        if (!this.snapshot) {
+            return null;
+        }
+
+        const recording: InputRecording = {
+            version: InputRecorder.RECORDING_VERSION,
+            timeStep: this.engine.getTimeStep(),
+            snapshot: this.snapshot,
+            endTick: this.engine.getTick(),
+            actions: this.actions,
+        };
+        if (this.levelId !== undefined) {
+            recording.levelId = this.levelId;
+        }
+
+        this.snapshot = null;
+        this.actions = [];
+        this.diverged = false;
+
+        this.engine.emit("recordingChange", { recording: false });
+        this.notify();
+
+        return recording;
+    }
+
+    /**
+     * Checks if a recording is in progress
+     *
+     * @returns True if recording, false otherwise
+     */
+    public isRecording(): boolean {
+        return this.snapshot !== null;
+    }
+
+    /**
+     * Checks if the world changed, since the recording started, in a way the
+     * recording cannot replay
+     *
+     * @returns True if a replay of the current recording would not match
+     */
+    public hasDiverged(): boolean {
+        return this.diverged;
+    }
+
+    /**
+     * Checks that data read from a file is a recording this version can replay
+     *
+     * @param data - The parsed file content
+     * @returns The recording
+     * @throws Error describing the first problem found
+     */
+    public static parse(data: unknown): InputRecording {
+        const recording = data as Partial<InputRecording> | null;
+        if (typeof recording !== "object" || recording === null) {
+            throw new Error("Not a recording");
+        }
+        if (recording.version !== InputRecorder.RECORDING_VERSION) {
+            throw new Error(
+                `Unsupported recording version: ${recording.version}`,
+            );
+        }
+        if (
+            typeof recording.timeStep !== "number" ||
+            !(recording.timeStep > 0) ||
+            typeof recording.endTick !== "number" ||
+            !Array.isArray(recording.actions) ||
+            !["string", "undefined"].includes(typeof recording.levelId)
+        ) {
+            throw new Error("Malformed recording");
+        }
+
+        const snapshot = recording.snapshot as Partial<WorldSnapshot> | undefined;
+        if (typeof snapshot !== "object" || snapshot === null) {
+            throw new Error("Recording has no snapshot");
+        }
+        if (snapshot.version !== Engine.SNAPSHOT_VERSION) {
+            throw new Error(
+                `Unsupported snapshot version: ${snapshot.version}`,
+            );
+        }
+        if (
+            !Array.isArray(snapshot.bodies) ||
+            !Array.isArray(snapshot.pairs)
+        ) {
+            throw new Error("Malformed snapshot");
+        }
+
+        for (const recorded of recording.actions as unknown[]) {
+            const { tick, action } = (recorded ?? {}) as Partial<RecordedAction>;
+            if (
+                typeof tick !== "number" ||
+                typeof action !== "object" ||
+                action === null ||
+                typeof action.type !== "string"
+            ) {
+                throw new Error("Malformed recorded action");
+            }
+        }
+
+        return recording as InputRecording;
+    }
+
+    /**
+     * Stores an action performed while recording
+     *
+     * @param action - The action performed
+     */
+    private handleAction = (action: InputAction): void => {
+        if (!this.snapshot) {
+            return;
+        }
+
+        this.actions.push({ tick: this.engine.getTick(), action: action });
+    };
+
+    /**
+     * Marks the recording as diverged when the world changes outside the recorded
+     * actions (engine event handler)
+     */
+    private handleDivergence = (): void => {
+        if (!this.snapshot || this.diverged) {
+            return;
+        }
+
+        this.diverged = true;
+        this.notify();
+    };
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notify(): void {
+        this.onChangeCallbacks.forEach((callback) => callback());
+    }
+}
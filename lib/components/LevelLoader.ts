@@ -0,0 +1,209 @@
+/**
+ * LevelLoader.ts
+ *
+ * This file contains the LevelLoader class, which builds levels described by JSON
+ * definitions: boundary walls, goal boxes, static obstacles and the bodies to collect,
+ * along with the level's win condition and scoring rules.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "../core/Engine";
+import { ScoringRules } from "../scoring/ScoringRules";
+import { LevelBodyDefinition, LevelDefinition } from "../types";
+import { BodyFactory } from "./BodyFactory";
+import { BoundaryBox } from "./BoundaryBox";
+import { BoundaryWalls } from "./BoundaryWalls";
+
+/**
+ * LevelLoader Class
+ *
+ * Builds one level at a time through BodyFactory, BoundaryWalls and BoundaryBox.
+ * Loading a level removes the previous one, and `reload()` rebuilds the current
+ * level, e.g. when the game is restarted.
+ */
+export class LevelLoader {
+    // Version of the level format read by parse()
+    public static readonly LEVEL_VERSION = 1;
+
+    // Core components
+    private engine: Engine;
+    private bodyFactory: BodyFactory;
+
+    // The level currently loaded
+    private level: LevelDefinition | null = null;
+    // Components and bodies built for the current level
+    private walls: BoundaryWalls | null = null;
+    private goals: BoundaryBox[] = [];
+    private bodies: Matter.Body[] = [];
+
+    /**
+     * LevelLoader constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param bodyFactory - Factory for creating the level's bodies
+     */
+    constructor(engine: Engine, bodyFactory: BodyFactory) {
+        this.engine = engine;
+        this.bodyFactory = bodyFactory;
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the current level
+     */
+    public destroy(): void {
+        this.unload();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Checks that data read from a level file is a valid level definition
+     *
+     * @param data - Parsed JSON content
+     * @returns The level definition
+     */
+    public static parse(data: unknown): LevelDefinition {
+        const level = data as LevelDefinition;
+
+        if (typeof level !== "object" || level === null) {
+            throw new Error("Invalid level: expected an object");
+        }
+        if (level.version !== LevelLoader.LEVEL_VERSION) {
+            throw new Error(`Unsupported level version: ${level.version}`);
+        }
+        if (typeof level.id !== "string" || typeof level.name !== "string") {
+            throw new Error("Invalid level: missing id or name");
+        }
+        if (!(level.width > 0) || !(level.height > 0)) {
+            throw new Error(`Invalid level ${level.id}: missing arena size`);
+        }
+        if (!Array.isArray(level.bodies) || !Array.isArray(level.goals)) {
+            throw new Error(`Invalid level ${level.id}: missing bodies or goals`);
+        }
+
+        const shapes = [...level.bodies, ...(level.obstacles ?? [])];
+        for (const shape of shapes) {
+            if (!["circle", "polygon", "rectangle"].includes(shape.shape)) {
+                throw new Error(
+                    `Invalid level ${level.id}: unknown shape ${shape.shape}`,
+                );
+            }
+        }
+
+        for (const rule of level.scoring ?? []) {
+            if (!ScoringRules.RULE_TYPES.includes(rule.type)) {
+                throw new Error(
+                    `Invalid level ${level.id}: unknown scoring rule ${rule.type}`,
+                );
+            }
+        }
+
+        const forceModel = level.forceModel;
+        if (
+            forceModel &&
+            (!["force", "impulse", undefined].includes(forceModel.type) ||
+                !["linear", "quadratic", "constant", undefined].includes(
+                    forceModel.falloff,
+                ))
+        ) {
+            throw new Error(`Invalid level ${level.id}: invalid force model`);
+        }
+
+        return level;
+    }
+
+    /**
+     * Builds a level, replacing the current one
+     *
+     * Also sets the win condition, scoring rules and body count of the engine's
+     * game manager.
+     *
+     * @param level - The level to build
+     */
+    public load(level: LevelDefinition): void {
+        this.unload();
+        this.level = level;
+        this.engine.resetBodyIds();
+
+        // Arena: walls and goal boxes
+        this.walls = new BoundaryWalls(
+            this.engine,
+            level.width,
+            level.height,
+            level.walls,
+        );
+        this.goals = level.goals.map((goal, index) =>
+            new BoundaryBox(this.engine, level.width, level.height, {
+                ...goal,
+                id: goal.id ?? BoundaryBox.getDefaultId(index),
+            })
+        );
+
+        // Static obstacles, then the bodies to collect
+        const obstacles = (level.obstacles ?? []).map((obstacle) =>
+            this.createBody(obstacle, true)
+        );
+        const bodies = level.bodies.map((body) => this.createBody(body, false));
+        this.bodies = [...obstacles, ...bodies];
+        this.engine.addBody(this.bodies);
+
+        const gameManager = this.engine.getGameManager();
+        gameManager?.setWinCondition(level.winCondition ?? { type: "collectAll" });
+        gameManager?.setScoringRules(ScoringRules.create(level.scoring ?? []));
+        gameManager?.setInitialBodyCount(bodies.length);
+    }
+
+    /**
+     * Rebuilds the current level from scratch
+     */
+    public reload(): void {
+        if (this.level) {
+            this.load(this.level);
+        }
+    }
+
+    /**
+     * Gets the level currently loaded
+     *
+     * @returns The level definition, or null if none is loaded
+     */
+    public getLevel(): LevelDefinition | null {
+        return this.level;
+    }
+
+    /**
+     * Removes the walls, goals and bodies of the current level
+     */
+    private unload(): void {
+        this.walls?.destroy();
+        this.walls = null;
+
+        this.goals.forEach((goal) => goal.destroy());
+        this.goals = [];
+
+        for (const body of this.bodies) {
+            this.engine.removeBody(body);
+        }
+        this.bodies = [];
+
+        this.level = null;
+    }
+
+    /**
+     * Creates a body of the level
+     *
+     * @param definition - The body definition
+     * @param isStatic - True for obstacles
+     * @returns The body, not yet added to the world
+     */
+    private createBody(
+        definition: LevelBodyDefinition,
+        isStatic: boolean,
+    ): Matter.Body {
+        return this.bodyFactory.createBody({
+            ...definition,
+            options: { ...definition.options, isStatic: isStatic },
+        });
+    }
+}
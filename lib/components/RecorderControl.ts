@@ -0,0 +1,154 @@
+/**
+ * RecorderControl.ts
+ *
+ * This file contains the RecorderControl class, which adds UI controls to record
+ * input, export the recording as a file and load a recording to replay it.
+ */
+
+import { Engine } from "../core/Engine";
+import { InputRecording } from "../types";
+import { FileTransfer } from "../utils/FileTransfer";
+import { InputRecorder } from "./InputRecorder";
+
+/**
+ * RecorderControl Class
+ *
+ * Manages the recording UI, including:
+ * - A button to start and stop recording (stopping downloads the recording)
+ * - A file input to load a recording, passed to registered callbacks for replay
+ * - A status line explaining why a file could not be loaded, or warning that the
+ *   recording in progress no longer matches what happened
+ */
+export class RecorderControl {
+    // UI elements
+    private element: HTMLDivElement;
+    private recordButton: HTMLButtonElement;
+    private fileInput: HTMLInputElement;
+    private statusLabel: HTMLSpanElement;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // The recorder controlled by this UI
+    private recorder: InputRecorder;
+
+    // Callbacks notified when a recording is loaded
+    private onLoadCallbacks: ((recording: InputRecording) => void)[] = [];
+
+    /**
+     * RecorderControl constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param recorder - The input recorder to control
+     */
+    constructor(engine: Engine, recorder: InputRecorder) {
+        this.engine = engine;
+        this.recorder = recorder;
+
+        // Create recorder control UI element
+        this.element = document.createElement("div");
+        this.element.className = "recorder-control";
+        this.element.innerHTML = `
+            <button type="button" data-role="record">Record</button>
+            <label>
+                Load replay
+                <input type="file" accept="application/json" data-role="load">
+            </label>
+            <span role="status" data-role="status"></span>
+        `;
+        document.body.appendChild(this.element);
+
+        // Get UI elements
+        this.recordButton = this.element.querySelector(
+            "[data-role=record]",
+        ) as HTMLButtonElement;
+        this.fileInput = this.element.querySelector(
+            "[data-role=load]",
+        ) as HTMLInputElement;
+        this.statusLabel = this.element.querySelector(
+            "[data-role=status]",
+        ) as HTMLSpanElement;
+
+        // Add event listeners
+        this.recordButton.addEventListener("click", () => this.toggleRecording());
+        this.fileInput.addEventListener("change", () => {
+            this.loadRecording().catch((error: unknown) => {
+                const message =
+                    error instanceof Error ? error.message : String(error);
+                this.statusLabel.textContent =
+                    `Could not load replay: ${message}`;
+            });
+        });
+        this.recorder.onChange(this.handleRecorderChange);
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the controls from the page and every registered callback
+     */
+    public destroy(): void {
+        this.onLoadCallbacks = [];
+        this.recorder.offChange(this.handleRecorderChange);
+        this.element.remove();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Registers a callback function to be called when a recording is loaded
+     *
+     * @param callback - Function to call with the loaded recording
+     */
+    public onLoad(callback: (recording: InputRecording) => void): void {
+        this.onLoadCallbacks.push(callback);
+    }
+
+    /**
+     * Starts recording, or stops and downloads the recording
+     */
+    private toggleRecording(): void {
+        if (!this.recorder.isRecording()) {
+            this.recorder.start();
+            return;
+        }
+
+        const recording = this.recorder.stop();
+        if (recording) {
+            FileTransfer.downloadJson(`recording-${Date.now()}.json`, recording);
+        }
+    }
+
+    /**
+     * Shows the recording state, and warns when the recording diverged
+     * (InputRecorder change handler)
+     */
+    private handleRecorderChange = (): void => {
+        this.recordButton.textContent = this.recorder.isRecording()
+            ? "Stop & export"
+            : "Record";
+
+        if (this.recorder.isRecording()) {
+            this.statusLabel.textContent = this.recorder.hasDiverged()
+                ? "Bodies were edited or the game was restarted: the recording no longer matches what happened"
+                : "";
+        }
+    };
+
+    /**
+     * Reads the chosen recording file and notifies the registered callbacks
+     *
+     * @throws Error if the file is not a valid recording or cannot be replayed
+     */
+    private async loadRecording(): Promise<void> {
+        const file = this.fileInput.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        // Allow loading the same file again, even if this one fails
+        this.fileInput.value = "";
+        this.statusLabel.textContent = "";
+
+        const recording = InputRecorder.parse(await FileTransfer.readJson(file));
+        this.onLoadCallbacks.forEach((callback) => callback(recording));
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * ReplayControl.ts
+ *
+ * This file contains the ReplayControl class, which adds playback controls
+ * (play, pause and scrub) for a ReplayPlayer.
+ */
+
+import { Engine } from "../core/Engine";
+import { ReplayPlayer } from "./ReplayPlayer";
+
+/**
+ * ReplayControl Class
+ *
+ * Manages the replay UI, including:
+ * - A play/pause button
+ * - A slider to scrub through the recording
+ * - A label showing the current position in ticks
+ */
+export class ReplayControl {
+    // UI elements
+    private element: HTMLDivElement;
+    private playButton: HTMLButtonElement;
+    private slider: HTMLInputElement;
+    private positionLabel: HTMLSpanElement;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // The player controlled by this UI
+    private player: ReplayPlayer;
+
+    /**
+     * ReplayControl constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param player - The replay player to control
+     */
+    constructor(engine: Engine, player: ReplayPlayer) {
+        this.engine = engine;
+        this.player = player;
+
+        // Create replay control UI element
+        this.element = document.createElement("div");
+        this.element.className = "replay-control";
+        this.element.innerHTML = `
+            <button type="button" data-role="play">Play</button>
+            <input type="range" min="0" step="1" data-role="scrub">
+            <span data-role="position"></span>
+        `;
+        document.body.appendChild(this.element);
+
+        // Get UI elements
+        this.playButton = this.element.querySelector(
+            "[data-role=play]",
+        ) as HTMLButtonElement;
+        this.slider = this.element.querySelector(
+            "[data-role=scrub]",
+        ) as HTMLInputElement;
+        this.positionLabel = this.element.querySelector(
+            "[data-role=position]",
+        ) as HTMLSpanElement;
+        this.slider.max = String(this.player.getDuration());
+
+        // Add event listeners
+        this.playButton.addEventListener("click", () => this.togglePlayback());
+        this.slider.addEventListener("input", () => {
+            this.player.pause();
+            this.player.seek(Number(this.slider.value));
+        });
+        this.player.onUpdate(this.updateDisplay);
+
+        this.updateDisplay();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the controls from the page and stops following the player
+     */
+    public destroy(): void {
+        this.player.offUpdate(this.updateDisplay);
+        this.element.remove();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Plays or pauses the recording
+     */
+    private togglePlayback(): void {
+        if (this.player.isPlaying()) {
+            this.player.pause();
+        } else {
+            this.player.play();
+        }
+    }
+
+    /**
+     * Updates the controls with the player's position and state
+     */
+    private updateDisplay = (): void => {
+        const position = this.player.getPosition();
+        const duration = this.player.getDuration();
+
+        this.playButton.textContent = this.player.isPlaying() ? "Pause" : "Play";
+        this.slider.value = String(position);
+        this.positionLabel.textContent = `${position} / ${duration}`;
+    };
+}
@@ -0,0 +1,261 @@
+/**
+ * ReplayPlayer.ts
+ *
+ * This file contains the ReplayPlayer class, which plays an input recording back
+ * against an Engine. It restores the world from the recording's snapshot and performs
+ * each recorded action on the tick it originally happened on.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "../core/Engine";
+import { InputRecording } from "../types";
+import { InputActions } from "./InputActions";
+import { InputRecorder } from "./InputRecorder";
+
+/**
+ * ReplayPlayer Class
+ *
+ * Drives the physics updates of an Engine itself (the engine must not be started),
+ * one update per frame, and supports play, pause and scrubbing. Scrubbing restores
+ * the initial snapshot and fast-forwards to the requested position, which gives the
+ * exact same result as playing up to it.
+ */
+export class ReplayPlayer {
+    // Reference to the physics engine the recording is played against
+    private engine: Engine;
+    // Actions used to perform the recorded input
+    private inputActions: InputActions;
+    // The recording being played
+    private recording: InputRecording;
+    // Index of the next recorded action to perform
+    private nextActionIndex: number = 0;
+
+    // Playback state
+    private playing: boolean = false;
+    private frameRequestId: number | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    // Callbacks notified when the playback position or state changes
+    private onUpdateCallbacks: (() => void)[] = [];
+
+    /**
+     * ReplayPlayer constructor
+     *
+     * @param engine - Engine to play the recording against (not started)
+     * @param inputActions - Actions bound to that engine
+     * @param recording - The recording to play
+     */
+    constructor(
+        engine: Engine,
+        inputActions: InputActions,
+        recording: InputRecording,
+    ) {
+        if (recording.version !== InputRecorder.RECORDING_VERSION) {
+            throw new Error(
+                `Unsupported recording version: ${recording.version}`,
+            );
+        }
+
+        this.engine = engine;
+        this.inputActions = inputActions;
+        this.recording = recording;
+
+        // Start from the beginning of the recording (throws on an unsupported
+        // snapshot, before anything is started)
+        this.seek(0);
+
+        // Keep drawing while paused or scrubbing
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Render.run(render);
+        }
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops playback and drawing, and removes every registered callback
+     */
+    public destroy(): void {
+        this.onUpdateCallbacks = [];
+        this.pause();
+
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Render.stop(render);
+        }
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Starts or resumes playback
+     */
+    public play(): void {
+        if (this.playing) {
+            return;
+        }
+
+        // Restart from the beginning when the end was reached
+        if (this.getPosition() >= this.getDuration()) {
+            this.seek(0);
+        }
+
+        this.playing = true;
+
+        if (typeof requestAnimationFrame !== "undefined") {
+            const onFrame = () => {
+                this.frameRequestId = requestAnimationFrame(onFrame);
+                this.update();
+            };
+            this.frameRequestId = requestAnimationFrame(onFrame);
+        } else {
+            // Headless: advance with a plain timer
+            this.timer = setInterval(
+                () => this.update(),
+                this.recording.timeStep,
+            );
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Pauses playback
+     */
+    public pause(): void {
+        this.playing = false;
+
+        if (this.frameRequestId !== null) {
+            cancelAnimationFrame(this.frameRequestId);
+            this.frameRequestId = null;
+        }
+
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Checks if the recording is playing
+     *
+     * @returns True if playing, false if paused
+     */
+    public isPlaying(): boolean {
+        return this.playing;
+    }
+
+    /**
+     * Moves the playback to a position
+     *
+     * @param position - Number of ticks from the start of the recording
+     */
+    public seek(position: number): void {
+        const target = Math.max(0, Math.min(position, this.getDuration()));
+
+        // Start over from the initial world and fast-forward to the target
+        this.engine.restore(this.recording.snapshot);
+        this.nextActionIndex = 0;
+
+        while (this.getPosition() < target) {
+            this.advance();
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Gets the playback position
+     *
+     * @returns Number of ticks played since the start of the recording
+     */
+    public getPosition(): number {
+        return this.engine.getTick() - this.getStartTick();
+    }
+
+    /**
+     * Gets the length of the recording
+     *
+     * @returns Number of ticks in the recording
+     */
+    public getDuration(): number {
+        return this.recording.endTick - this.getStartTick();
+    }
+
+    /**
+     * Registers a callback function to be called when the position or state changes
+     *
+     * @param callback - Function to call on change
+     */
+    public onUpdate(callback: () => void): void {
+        this.onUpdateCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a callback previously registered with onUpdate()
+     *
+     * @param callback - The callback to remove
+     */
+    public offUpdate(callback: () => void): void {
+        this.onUpdateCallbacks = this.onUpdateCallbacks.filter((registered) =>
+            registered !== callback
+        );
+    }
+
+    /**
+     * Plays a single frame, pausing at the end of the recording
+     */
+    private update(): void {
+        if (this.getPosition() >= this.getDuration()) {
+            this.pause();
+            return;
+        }
+
+        this.advance();
+        this.notify();
+    }
+
+    /**
+     * Performs the actions recorded for the current tick, then a physics update
+     */
+    private advance(): void {
+        const tick = this.engine.getTick();
+        const actions = this.recording.actions;
+
+        while (
+            this.nextActionIndex < actions.length &&
+            actions[this.nextActionIndex].tick <= tick
+        ) {
+            // Only actions that had an effect are recorded: one that has none now
+            // means the replay no longer matches the recording
+            const { action } = actions[this.nextActionIndex];
+            if (!this.inputActions.execute(action)) {
+                console.warn(
+                    `Replay diverged at tick ${tick}: ${action.type} had no effect`,
+                );
+            }
+            this.nextActionIndex++;
+        }
+
+        this.engine.step(this.recording.timeStep);
+    }
+
+    /**
+     * Gets the tick the recording starts at
+     *
+     * @returns The tick of the initial snapshot (0 if it has none, like restore())
+     */
+    private getStartTick(): number {
+        return this.recording.snapshot.tick ?? 0;
+    }
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notify(): void {
+        this.onUpdateCallbacks.forEach((callback) => callback());
+    }
+}
@@ -0,0 +1,369 @@
+/**
+ * Rewind.ts
+ *
+ * This file contains the Rewind class, which keeps a history of world snapshots so
+ * the last shot can be undone and the simulation can be played backwards.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "../core/Engine";
+import { RewindOptions, WorldSnapshot } from "../types";
+import { RingBuffer } from "../utils/RingBuffer";
+import { BoundaryBox } from "./BoundaryBox";
+
+// A snapshot of the history
+interface RewindEntry {
+    snapshot: WorldSnapshot;
+    // True if the snapshot was taken right before a shot
+    isShot: boolean;
+}
+
+/**
+ * Rewind Class
+ *
+ * Snapshots are taken at regular intervals of simulation time and right before every
+ * shot (repel or slingshot launch), in a ring buffer so only the most recent ones are
+ * kept. Restoring a snapshot also restores the score and attempts of the engine's
+ * game manager, and counts an undo (see the undo penalty scoring rule).
+ *
+ * While a goal zone captures a body, no snapshot is taken: the capture animation
+ * is not part of the snapshots.
+ *
+ * Undo and rewind are disabled while input is being recorded, as a replay of the
+ * recording could not go back in time.
+ */
+export class Rewind {
+    // Default number of snapshots kept
+    public static readonly DEFAULT_CAPACITY = 300;
+    // Default simulation time in milliseconds between two snapshots
+    public static readonly DEFAULT_INTERVAL = 50;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // Most recent snapshots
+    private history: RingBuffer<RewindEntry>;
+    // Simulation time between two snapshots
+    private interval: number;
+    // Simulation time of the last snapshot
+    private lastSnapshotTime: number = -Infinity;
+
+    // Rewind playback state
+    private rewinding: boolean = false;
+    private wasPaused: boolean = false;
+    // Simulation time the rewind went back to, and real time of the last frame
+    private rewindTime: number = 0;
+    private lastFrameTime: number = 0;
+    private frameRequestId: number | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    // True while input is being recorded (see InputRecorder)
+    private recording: boolean = false;
+
+    // Callbacks notified when the history or the rewind state changes
+    private onChangeCallbacks: (() => void)[] = [];
+
+    /**
+     * Rewind constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param options - Size and frequency of the history
+     */
+    constructor(engine: Engine, options: RewindOptions = {}) {
+        this.engine = engine;
+        this.history = new RingBuffer(
+            options.capacity ?? Rewind.DEFAULT_CAPACITY,
+        );
+        this.interval = options.interval ?? Rewind.DEFAULT_INTERVAL;
+
+        Matter.Events.on(
+            this.engine.getEngine(),
+            "afterUpdate",
+            this.onAfterUpdate,
+        );
+        this.engine.on("shot", this.onShot);
+        this.engine.on("restart", this.onRestart);
+        this.engine.on("recordingChange", this.onRecordingChange);
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops rewinding, forgets the history and removes every registered callback
+     */
+    public destroy(): void {
+        this.stopRewind();
+
+        Matter.Events.off(
+            this.engine.getEngine(),
+            "afterUpdate",
+            this.onAfterUpdate,
+        );
+        this.engine.off("shot", this.onShot);
+        this.engine.off("restart", this.onRestart);
+        this.engine.off("recordingChange", this.onRecordingChange);
+
+        this.history.clear();
+        this.onChangeCallbacks = [];
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Registers a callback function to be called when the history or the rewind
+     * state changes
+     *
+     * @param callback - Function to call
+     */
+    public onChange(callback: () => void): void {
+        this.onChangeCallbacks.push(callback);
+    }
+
+    /**
+     * Removes a callback previously registered with onChange()
+     *
+     * @param callback - The callback to remove
+     */
+    public offChange(callback: () => void): void {
+        this.onChangeCallbacks = this.onChangeCallbacks.filter((registered) =>
+            registered !== callback
+        );
+    }
+
+    /**
+     * Checks if there is a shot to undo
+     *
+     * @returns True if a snapshot taken before a shot is in the history, and
+     * input is not being recorded
+     */
+    public canUndo(): boolean {
+        return !this.recording &&
+            this.history.toArray().some((entry) => entry.isShot);
+    }
+
+    /**
+     * Checks if there is anything to rewind
+     *
+     * @returns True if the history is not empty, and input is not being recorded
+     */
+    public canRewind(): boolean {
+        return !this.recording && this.history.size() > 0;
+    }
+
+    /**
+     * Checks if the simulation is being played backwards
+     *
+     * @returns True while rewinding
+     */
+    public isRewinding(): boolean {
+        return this.rewinding;
+    }
+
+    /**
+     * Takes a snapshot now
+     *
+     * Called automatically at intervals and before every shot.
+     *
+     * @param isShot - True if the snapshot is taken right before a shot
+     */
+    public checkpoint(isShot: boolean): void {
+        if (this.rewinding) {
+            return;
+        }
+
+        if (this.isCapturing()) {
+            // Fall back to the latest snapshot, taken just before the capture
+            const latest = this.history.peek();
+            if (isShot && latest) {
+                latest.isShot = true;
+                this.notify();
+            }
+            return;
+        }
+
+        this.history.push({ snapshot: this.engine.serialize(), isShot: isShot });
+        this.lastSnapshotTime = this.engine.getEngine().timing.timestamp;
+        this.notify();
+    }
+
+    /**
+     * Restores the world as it was right before the last shot
+     *
+     * The snapshots taken after the shot are dropped.
+     *
+     * @returns True if a shot was undone
+     */
+    public undo(): boolean {
+        if (this.rewinding || !this.canUndo()) {
+            return false;
+        }
+
+        let entry = this.history.pop();
+        while (entry && !entry.isShot) {
+            entry = this.history.pop();
+        }
+        if (!entry) {
+            return false;
+        }
+
+        this.restore(entry.snapshot);
+        this.engine.getGameManager()?.addUndo();
+        this.notify();
+        return true;
+    }
+
+    /**
+     * Starts playing the simulation backwards, at the speed it was recorded
+     *
+     * Each frame goes back by the real time elapsed since the previous one (scaled
+     * by the engine's speed) and shows the snapshot taken at that time. The physics
+     * is paused until stopRewind() is called.
+     */
+    public startRewind(): void {
+        if (this.rewinding || !this.canRewind()) {
+            return;
+        }
+
+        this.rewinding = true;
+        this.rewindTime = this.engine.getEngine().timing.timestamp;
+        this.lastFrameTime = performance.now();
+        this.wasPaused = this.engine.isPaused();
+        this.engine.pause();
+        this.engine.getGameManager()?.addUndo();
+
+        if (typeof requestAnimationFrame !== "undefined") {
+            const onFrame = () => {
+                this.frameRequestId = requestAnimationFrame(onFrame);
+                this.stepBack();
+            };
+            this.frameRequestId = requestAnimationFrame(onFrame);
+        } else {
+            // Headless: step back with a plain timer
+            this.timer = setInterval(
+                () => this.stepBack(),
+                this.engine.getTimeStep(),
+            );
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Stops playing backwards and resumes the physics from the current snapshot
+     */
+    public stopRewind(): void {
+        if (!this.rewinding) {
+            return;
+        }
+
+        this.rewinding = false;
+
+        if (this.frameRequestId !== null) {
+            cancelAnimationFrame(this.frameRequestId);
+            this.frameRequestId = null;
+        }
+
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        if (!this.wasPaused) {
+            this.engine.resume();
+        }
+
+        this.notify();
+    }
+
+    /**
+     * Goes back by the time elapsed since the previous rewind frame, restoring the
+     * snapshot taken at that time
+     */
+    private stepBack(): void {
+        const now = performance.now();
+        this.rewindTime -= (now - this.lastFrameTime) * this.engine.getTimeScale();
+        this.lastFrameTime = now;
+
+        // Drop the snapshots taken after that time, and show the earliest of them
+        let entry: RewindEntry | undefined;
+        let next = this.history.peek();
+        while (next && next.snapshot.timestamp >= this.rewindTime) {
+            entry = this.history.pop();
+            next = this.history.peek();
+        }
+        if (!entry) {
+            // Still between two snapshots
+            return;
+        }
+
+        this.restore(entry.snapshot);
+
+        // Keep the oldest snapshot, so the world can be resumed from it
+        if (this.history.size() === 0) {
+            this.history.push(entry);
+            this.stopRewind();
+        }
+    }
+
+    /**
+     * Restores a snapshot of the history
+     *
+     * @param snapshot - The snapshot
+     */
+    private restore(snapshot: WorldSnapshot): void {
+        this.engine.restore(snapshot);
+        this.lastSnapshotTime = snapshot.timestamp;
+    }
+
+    /**
+     * Takes a snapshot at regular intervals (Matter.js event handler)
+     */
+    private onAfterUpdate = (): void => {
+        const time = this.engine.getEngine().timing.timestamp;
+        if (time - this.lastSnapshotTime >= this.interval) {
+            this.checkpoint(false);
+        }
+    };
+
+    /**
+     * Takes a snapshot before a shot changes the world
+     */
+    private onShot = (): void => {
+        this.checkpoint(true);
+    };
+
+    /**
+     * Forgets the history of the previous game
+     */
+    private onRestart = (): void => {
+        this.stopRewind();
+        this.history.clear();
+        this.lastSnapshotTime = -Infinity;
+        this.notify();
+    };
+
+    /**
+     * Disables undo and rewind while input is being recorded
+     */
+    private onRecordingChange = ({ recording }: { recording: boolean }): void => {
+        this.recording = recording;
+        this.stopRewind();
+        this.notify();
+    };
+
+    /**
+     * Checks if a goal zone is capturing a body
+     *
+     * @returns True if a captured body is still in the world
+     */
+    private isCapturing(): boolean {
+        return this.engine.getAllBodies().some((body) =>
+            BoundaryBox.isCaptured(this.engine, body)
+        );
+    }
+
+    /**
+     * Notifies all registered callbacks of a change
+     */
+    private notify(): void {
+        this.onChangeCallbacks.forEach((callback) => callback());
+    }
+}
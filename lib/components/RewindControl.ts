@@ -0,0 +1,103 @@
+/**
+ * RewindControl.ts
+ *
+ * This file contains the RewindControl class, which adds buttons to undo the last
+ * shot and to play the simulation backwards while held.
+ */
+
+import { Engine } from "../core/Engine";
+import { Rewind } from "./Rewind";
+
+/**
+ * RewindControl Class
+ *
+ * Manages the rewind controls UI, placed next to the debug control when present:
+ * - An undo button restoring the world as it was before the last shot
+ * - A rewind button playing the simulation backwards while it is held down
+ */
+export class RewindControl {
+    // UI elements
+    private element: HTMLDivElement;
+    private undoButton: HTMLButtonElement;
+    private rewindButton: HTMLButtonElement;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // History driven by the controls
+    private rewind: Rewind;
+
+    /**
+     * RewindControl constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param rewind - History of the engine
+     */
+    constructor(engine: Engine, rewind: Rewind) {
+        this.engine = engine;
+        this.rewind = rewind;
+
+        // Create rewind control UI element
+        this.element = document.createElement("div");
+        this.element.className = "rewind-control";
+        this.element.innerHTML = `
+            <button type="button" data-role="undo">Undo Shot</button>
+            <button type="button" data-role="rewind">Hold to Rewind</button>
+        `;
+
+        // Place the strip next to the debug control checkbox if it exists
+        const debugElement = document.querySelector(".debug-control");
+        if (debugElement) {
+            debugElement.after(this.element);
+        } else {
+            document.body.appendChild(this.element);
+        }
+
+        // Get UI elements
+        this.undoButton = this.element.querySelector(
+            "[data-role=undo]",
+        ) as HTMLButtonElement;
+        this.rewindButton = this.element.querySelector(
+            "[data-role=rewind]",
+        ) as HTMLButtonElement;
+
+        // Add event listeners (pointer events, so holding works with touch too)
+        this.undoButton.addEventListener("click", () => this.rewind.undo());
+        this.rewindButton.addEventListener(
+            "pointerdown",
+            () => this.rewind.startRewind(),
+        );
+        this.rewindButton.addEventListener(
+            "pointerup",
+            () => this.rewind.stopRewind(),
+        );
+        this.rewindButton.addEventListener(
+            "pointerleave",
+            () => this.rewind.stopRewind(),
+        );
+
+        // Keep the buttons in sync with the history (e.g. after keyboard use)
+        this.rewind.onChange(this.updateDisplay);
+
+        this.updateDisplay();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the controls from the page and stops listening to the history
+     */
+    public destroy(): void {
+        this.rewind.offChange(this.updateDisplay);
+        this.element.remove();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Enables the buttons that have something to do
+     */
+    private updateDisplay = (): void => {
+        this.undoButton.disabled = !this.rewind.canUndo();
+        this.rewindButton.disabled = !this.rewind.isRewinding() &&
+            !this.rewind.canRewind();
+    };
+}
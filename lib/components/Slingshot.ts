@@ -0,0 +1,311 @@
+/**
+ * Slingshot.ts
+ *
+ * This file contains the Slingshot class, which implements drag-to-aim shooting:
+ * press on a body, drag back to set the direction and power, and release to launch
+ * it. While aiming, the predicted trajectory is drawn as a dotted line.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "../core/Engine";
+import { ForceModel } from "../core/ForceModel";
+import { SlingshotOptions } from "../types";
+import { InputActions } from "./InputActions";
+
+// Render view transforms, missing from the Matter.js typings
+const RenderTransforms = Matter.Render as unknown as {
+    startViewTransform(render: Matter.Render): void;
+    endViewTransform(render: Matter.Render): void;
+};
+
+/**
+ * Slingshot Class
+ *
+ * Keeps the state of the current aim and launches through InputActions, so shots
+ * are recorded like any other input. The trajectory is predicted by restoring a
+ * snapshot of the world in a headless Engine, applying the impulse there and
+ * simulating ahead; the real world is never touched by the preview. The preview is
+ * computed at most once per animation frame, and only when the impulse changed.
+ */
+export class Slingshot {
+    // Default longest drag in pixels
+    public static readonly DEFAULT_MAX_DRAG = 150;
+    // Default impulse per pixel dragged
+    public static readonly DEFAULT_POWER = 0.3;
+    // Default number of updates simulated for the preview
+    public static readonly DEFAULT_PREVIEW_STEPS = 90;
+    // Default number of updates between two dots of the preview
+    public static readonly DEFAULT_PREVIEW_INTERVAL = 3;
+
+    // Core components
+    private engine: Engine;
+    private actions: InputActions;
+    // Render-free engine used to predict trajectories (created on first use)
+    private previewEngine: Engine | null = null;
+
+    // Aiming settings
+    private maxDrag: number;
+    private power: number;
+    private previewSteps: number;
+    private previewInterval: number;
+
+    // Body being aimed, point it was grabbed at, and current pointer position
+    private body: Matter.Body | null = null;
+    private anchor: Matter.Vector = { x: 0, y: 0 };
+    private pointer: Matter.Vector = { x: 0, y: 0 };
+    // Predicted positions of the body, in world coordinates
+    private trajectory: Matter.Vector[] = [];
+    // Impulse the trajectory was predicted for (null if not predicted yet)
+    private previewImpulse: Matter.Vector | null = null;
+    // Pending preview update, run on the next animation frame
+    private previewRequestId: number | null = null;
+
+    /**
+     * Slingshot constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param actions - Actions used to launch the bodies
+     * @param options - Power and preview settings
+     */
+    constructor(
+        engine: Engine,
+        actions: InputActions,
+        options: SlingshotOptions = {},
+    ) {
+        this.engine = engine;
+        this.actions = actions;
+        this.maxDrag = options.maxDrag ?? Slingshot.DEFAULT_MAX_DRAG;
+        this.power = options.power ?? Slingshot.DEFAULT_POWER;
+        this.previewSteps = options.previewSteps ??
+            Slingshot.DEFAULT_PREVIEW_STEPS;
+        this.previewInterval = options.previewInterval ??
+            Slingshot.DEFAULT_PREVIEW_INTERVAL;
+
+        // Draw the aim on top of the scene
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.on(render, "afterRender", this.draw);
+        }
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Cancels the current aim and stops drawing
+     */
+    public destroy(): void {
+        this.cancelAim();
+
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.off(render, "afterRender", this.draw);
+        }
+
+        this.previewEngine?.destroy();
+        this.previewEngine = null;
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Starts aiming the dynamic body at a point, if any
+     *
+     * @param point - Point in world coordinates
+     * @returns True if a body was grabbed
+     */
+    public beginAim(point: Matter.Vector): boolean {
+        const body = Matter.Query.point(this.engine.getAllBodies(), point)
+            .find((candidate) => !candidate.isSensor);
+        if (!body || body.isStatic) {
+            return false;
+        }
+
+        this.body = body;
+        this.anchor = { x: point.x, y: point.y };
+        this.pointer = { x: point.x, y: point.y };
+        this.trajectory = [];
+        this.previewImpulse = null;
+        return true;
+    }
+
+    /**
+     * Moves the aim to the pointer position and updates the preview
+     *
+     * @param point - Pointer position in world coordinates
+     */
+    public updateAim(point: Matter.Vector): void {
+        if (!this.body) {
+            return;
+        }
+
+        this.pointer = { x: point.x, y: point.y };
+
+        if (typeof requestAnimationFrame === "undefined") {
+            // Headless: no frames to wait for
+            this.updatePreview();
+        } else if (this.previewRequestId === null) {
+            this.previewRequestId = requestAnimationFrame(() => {
+                this.previewRequestId = null;
+                this.updatePreview();
+            });
+        }
+    }
+
+    /**
+     * Launches the body being aimed
+     *
+     * Releasing without dragging cancels the shot.
+     *
+     * @returns True if the body was launched
+     */
+    public release(): boolean {
+        const body = this.body;
+        const impulse = this.getImpulse();
+        this.cancelAim();
+
+        if (!body || Matter.Vector.magnitude(impulse) === 0) {
+            return false;
+        }
+
+        this.actions.launch(body, impulse);
+        return true;
+    }
+
+    /**
+     * Stops aiming without launching
+     */
+    public cancelAim(): void {
+        this.body = null;
+        this.trajectory = [];
+        this.previewImpulse = null;
+
+        if (this.previewRequestId !== null) {
+            cancelAnimationFrame(this.previewRequestId);
+            this.previewRequestId = null;
+        }
+    }
+
+    /**
+     * Checks if a body is being aimed
+     *
+     * @returns True while aiming
+     */
+    public isAiming(): boolean {
+        return this.body !== null;
+    }
+
+    /**
+     * Computes the impulse of the current aim
+     *
+     * The body is launched opposite to the drag, with a power proportional to
+     * the drag length (up to the longest drag).
+     *
+     * @returns The impulse (zero when not aiming)
+     */
+    public getImpulse(): Matter.Vector {
+        if (!this.body) {
+            return { x: 0, y: 0 };
+        }
+
+        const drag = Matter.Vector.sub(this.anchor, this.pointer);
+        const length = Matter.Vector.magnitude(drag);
+        if (length === 0) {
+            return { x: 0, y: 0 };
+        }
+
+        const clamped = Math.min(length, this.maxDrag);
+        return Matter.Vector.mult(drag, (clamped / length) * this.power);
+    }
+
+    /**
+     * Predicts the trajectory again if the impulse changed since the last preview
+     */
+    private updatePreview(): void {
+        const impulse = this.getImpulse();
+        if (
+            this.previewImpulse &&
+            impulse.x === this.previewImpulse.x &&
+            impulse.y === this.previewImpulse.y
+        ) {
+            return;
+        }
+
+        this.previewImpulse = impulse;
+        this.trajectory = this.predictTrajectory(impulse);
+    }
+
+    /**
+     * Predicts the path of the body being aimed if it were launched
+     *
+     * @param impulse - Impulse of the launch
+     * @returns Positions of the body at regular intervals
+     */
+    private predictTrajectory(impulse: Matter.Vector): Matter.Vector[] {
+        if (!this.body || Matter.Vector.magnitude(impulse) === 0) {
+            return [];
+        }
+
+        // Copy the current world into the render-free engine
+        this.previewEngine ??= new Engine({
+            width: 0, // Unused without a renderer
+            height: 0,
+            fixedTimeStep: this.engine.getTimeStep(),
+        });
+        this.previewEngine.restore(this.engine.serialize());
+
+        const body = Matter.Composite.get(
+            this.previewEngine.getWorld(),
+            this.body.id,
+            "body",
+        ) as Matter.Body | null;
+        if (!body) {
+            return [];
+        }
+
+        ForceModel.applyImpulse(body, impulse);
+
+        const points: Matter.Vector[] = [];
+        for (let step = 1; step <= this.previewSteps; step++) {
+            this.previewEngine.step();
+            if (step % this.previewInterval === 0) {
+                points.push({ x: body.position.x, y: body.position.y });
+            }
+        }
+        return points;
+    }
+
+    /**
+     * Draws the band and the predicted trajectory (Matter.js event handler)
+     */
+    private draw = (): void => {
+        const render = this.engine.getRender();
+        if (!render || !this.body) {
+            return;
+        }
+
+        const context = render.context;
+        RenderTransforms.startViewTransform(render);
+        context.save();
+
+        // Band from the body to the pointer
+        context.strokeStyle = "rgba(0, 0, 0, 0.6)";
+        context.lineWidth = 2;
+        context.beginPath();
+        context.moveTo(this.body.position.x, this.body.position.y);
+        context.lineTo(this.pointer.x, this.pointer.y);
+        context.stroke();
+
+        // Dotted predicted trajectory, fading out
+        this.trajectory.forEach((point, index) => {
+            context.fillStyle = `rgba(0, 0, 0, ${
+                1 - index / this.trajectory.length
+            })`;
+            context.beginPath();
+            context.arc(point.x, point.y, 3, 0, 2 * Math.PI);
+            context.fill();
+        });
+
+        context.restore();
+        RenderTransforms.endViewTransform(render);
+    };
+}
@@ -0,0 +1,116 @@
+/**
+ * TimeControl.ts
+ *
+ * This file contains the TimeControl class, which adds a control strip to pause,
+ * resume and single-step the physics and to change the simulation speed.
+ */
+
+import { Engine } from "../core/Engine";
+import { InputActions } from "./InputActions";
+
+/**
+ * TimeControl Class
+ *
+ * Manages the time controls UI, placed next to the debug control when present:
+ * - A pause/resume button
+ * - A step button advancing a single physics update while paused
+ * - Slower/faster buttons and a label showing the current speed
+ */
+export class TimeControl {
+    // UI elements
+    private element: HTMLDivElement;
+    private pauseButton: HTMLButtonElement;
+    private stepButton: HTMLButtonElement;
+    private speedLabel: HTMLSpanElement;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // Actions used to change the speed (so the change can be recorded)
+    private inputActions: InputActions;
+
+    /**
+     * TimeControl constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param inputActions - Actions bound to that engine
+     */
+    constructor(engine: Engine, inputActions: InputActions) {
+        this.engine = engine;
+        this.inputActions = inputActions;
+
+        // Create time control UI element
+        this.element = document.createElement("div");
+        this.element.className = "time-control";
+        this.element.innerHTML = `
+            <button type="button" data-role="pause"></button>
+            <button type="button" data-role="step">Step</button>
+            <button type="button" data-role="slower">Slower</button>
+            <span data-role="speed"></span>
+            <button type="button" data-role="faster">Faster</button>
+        `;
+
+        // Place the strip next to the debug control checkbox if it exists
+        const debugElement = document.querySelector(".debug-control");
+        if (debugElement) {
+            debugElement.after(this.element);
+        } else {
+            document.body.appendChild(this.element);
+        }
+
+        // Get UI elements
+        this.pauseButton = this.element.querySelector(
+            "[data-role=pause]",
+        ) as HTMLButtonElement;
+        this.stepButton = this.element.querySelector(
+            "[data-role=step]",
+        ) as HTMLButtonElement;
+        this.speedLabel = this.element.querySelector(
+            "[data-role=speed]",
+        ) as HTMLSpanElement;
+
+        // Add event listeners
+        this.pauseButton.addEventListener("click", () => {
+            if (this.engine.isPaused()) {
+                this.engine.resume();
+            } else {
+                this.engine.pause();
+            }
+        });
+        this.stepButton.addEventListener("click", () => this.engine.stepOnce());
+        this.element.querySelector("[data-role=slower]")?.addEventListener(
+            "click",
+            () => this.inputActions.setTimeScale(this.engine.getTimeScale() / 2),
+        );
+        this.element.querySelector("[data-role=faster]")?.addEventListener(
+            "click",
+            () => this.inputActions.setTimeScale(this.engine.getTimeScale() * 2),
+        );
+
+        // Keep the display in sync with changes made elsewhere (e.g. keyboard)
+        this.engine.on("timingChange", this.updateDisplay);
+
+        this.updateDisplay();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Removes the controls from the page and stops listening to the engine
+     */
+    public destroy(): void {
+        this.engine.off("timingChange", this.updateDisplay);
+        this.element.remove();
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Updates the controls with the engine's pause state and speed
+     */
+    private updateDisplay = (): void => {
+        const paused = this.engine.isPaused();
+
+        this.pauseButton.textContent = paused ? "Resume" : "Pause";
+        this.stepButton.disabled = !paused;
+        this.speedLabel.textContent = `${this.engine.getTimeScale()}x`;
+    };
+}
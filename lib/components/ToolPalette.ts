@@ -0,0 +1,496 @@
+/**
+ * ToolPalette.ts
+ *
+ * This file contains the ToolPalette class, which implements the tools the primary
+ * button (left click, tap) can use on the canvas: select, move, rotate, spawn,
+ * eraser and repel. Each tool has its own cursor, and the body the tool would act
+ * on is highlighted under the pointer.
+ */
+
+import Matter from "matter-js";
+import { BodySelection } from "../core/BodySelection";
+import { Engine } from "../core/Engine";
+import { SpawnShape, ToolName } from "../types";
+import { BoundaryBox } from "./BoundaryBox";
+import { BoundaryWalls } from "./BoundaryWalls";
+import { InputActions } from "./InputActions";
+
+// Render view transforms, missing from the Matter.js typings
+const RenderTransforms = Matter.Render as unknown as {
+    startViewTransform(render: Matter.Render): void;
+    endViewTransform(render: Matter.Render): void;
+};
+
+/**
+ * ToolPalette Class
+ *
+ * The InputHandler hands the presses of the repel binding to the palette while a
+ * tool other than repel is selected (repelling, and aiming the slingshot, stay with
+ * the InputHandler):
+ * - Select: selects the body under the pointer, or the bodies inside a rectangle
+ *   dragged from empty space (Shift adds to the selection)
+ * - Move: drags bodies with the engine's mouse constraint
+ * - Rotate: turns the body under the pointer as the pointer circles around it
+ * - Spawn: creates bodies of the chosen shape in empty space, and along drags
+ * - Eraser: removes the bodies under the pointer, and the bodies dragged over
+ *
+ * Spawning and erasing go through InputActions, so they are recorded. Moving and
+ * rotating act on the bodies directly, like dragging them in debug mode, and are
+ * reported with the engine's bodyEdited event (an input recording stops matching).
+ */
+export class ToolPalette {
+    // Cursor shown over the canvas with each tool
+    public static readonly CURSORS: Record<ToolName, string> = {
+        select: "default",
+        move: "grab",
+        rotate: "ew-resize",
+        spawn: "copy",
+        eraser: "crosshair",
+        repel: "pointer",
+    };
+    // Shortest time in milliseconds between two bodies spawned by dragging
+    public static readonly SPAWN_INTERVAL = 100;
+
+    // Core components
+    private engine: Engine;
+    private actions: InputActions;
+
+    // Selected tool, and shape of the bodies it spawns
+    private tool: ToolName = "repel";
+    private spawnShape: SpawnShape = "random";
+    // Body the selected tool would act on, under the pointer
+    private hovered: Matter.Body | null = null;
+    // Bodies selected with the select tool
+    private selection: BodySelection;
+    // Whether the selection was created by (and is destroyed with) this palette
+    private ownsSelection: boolean = true;
+    // Rectangle being dragged with the select tool, in world coordinates
+    private band: {
+        start: Matter.Vector;
+        end: Matter.Vector;
+        additive: boolean;
+    } | null = null;
+    // Whether the primary button is pressed with the selected tool
+    private pressed: boolean = false;
+    // Body being rotated, with the pointer and body angles when it was grabbed
+    private rotation: {
+        body: Matter.Body;
+        pointerAngle: number;
+        bodyAngle: number;
+    } | null = null;
+    // Time the last body was spawned by dragging
+    private lastSpawnTime: number = -Infinity;
+
+    /**
+     * ToolPalette constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param actions - Actions used to spawn and erase bodies
+     */
+    constructor(engine: Engine, actions: InputActions) {
+        this.engine = engine;
+        this.actions = actions;
+        this.selection = new BodySelection();
+        this.selection.setEngine(engine);
+
+        // Draw the highlights on top of the scene
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.on(render, "afterRender", this.draw);
+        }
+
+        // Forget bodies leaving the world (removed, or replaced by a restore)
+        this.engine.on("bodyRemoved", this.handleBodyRemoved);
+
+        this.updateCursor();
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops using the selected tool and drawing the highlights
+     */
+    public destroy(): void {
+        this.release();
+        this.engine.disableMouseConstraint(this);
+
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.off(render, "afterRender", this.draw);
+        }
+        this.engine.off("bodyRemoved", this.handleBodyRemoved);
+        if (this.ownsSelection) {
+            this.selection.destroy();
+        }
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Selects a tool
+     *
+     * @param tool - The tool
+     */
+    public setTool(tool: ToolName): void {
+        this.release();
+        this.tool = tool;
+        this.hovered = null;
+
+        // Only the move tool drags bodies with the mouse constraint
+        if (tool === "move") {
+            this.engine.enableMouseConstraint(this);
+        } else {
+            this.engine.disableMouseConstraint(this);
+        }
+
+        this.updateCursor();
+    }
+
+    /**
+     * Gets the selected tool
+     *
+     * @returns The tool
+     */
+    public getTool(): ToolName {
+        return this.tool;
+    }
+
+    /**
+     * Sets the shape of the bodies created by the spawn tool
+     *
+     * @param shape - The shape, or "random" for a random shape for each body
+     */
+    public setSpawnShape(shape: SpawnShape): void {
+        this.spawnShape = shape;
+    }
+
+    /**
+     * Gets the shape of the bodies created by the spawn tool
+     *
+     * @returns The shape
+     */
+    public getSpawnShape(): SpawnShape {
+        return this.spawnShape;
+    }
+
+    /**
+     * Sets the selection the select tool edits
+     *
+     * @param selection - The selection, e.g. shared with an inspector panel
+     */
+    public setSelection(selection: BodySelection): void {
+        if (this.ownsSelection) {
+            this.selection.destroy();
+        }
+        this.selection = selection;
+        this.ownsSelection = false;
+    }
+
+    /**
+     * Gets the bodies selected with the select tool
+     *
+     * @returns The BodySelection instance
+     */
+    public getSelection(): BodySelection {
+        return this.selection;
+    }
+
+    /**
+     * Uses the selected tool at a point, as the primary button is pressed
+     *
+     * @param point - Pointer position in world coordinates
+     * @param additive - True to add to the selection (e.g. Shift held) instead of
+     * replacing it
+     */
+    public press(point: Matter.Vector, additive: boolean = false): void {
+        this.pressed = true;
+        const body = this.tool === "select"
+            ? this.findSelectable(point)
+            : this.findBody(point);
+
+        switch (this.tool) {
+            case "select":
+                if (!body) {
+                    // Start a rectangle selection from empty space
+                    this.band = { start: point, end: point, additive: additive };
+                    if (!additive) {
+                        this.selection.clear();
+                    }
+                } else if (additive) {
+                    this.selection.toggle(body);
+                } else {
+                    this.selection.set([body]);
+                }
+                break;
+            case "rotate":
+                if (body) {
+                    this.rotation = {
+                        body: body,
+                        pointerAngle: ToolPalette.getAngle(body, point),
+                        bodyAngle: body.angle,
+                    };
+                    this.engine.emit("bodyEdited", { body: body });
+                }
+                break;
+            case "spawn": {
+                // Only spawn in empty space, so bodies are not created inside others
+                // (goal sensors do not count)
+                const occupied = Matter.Query.point(
+                    this.engine.getAllBodies(),
+                    point,
+                ).some((body) => !body.isSensor);
+                if (!occupied) {
+                    this.actions.spawn(point, this.spawnShape);
+                    this.lastSpawnTime = Date.now();
+                }
+                break;
+            }
+            case "eraser":
+                this.actions.removeAt(point, true);
+                break;
+            // The mouse constraint moves bodies, and the InputHandler repels them
+            case "move":
+            case "repel":
+                break;
+        }
+
+        this.updateCursor();
+    }
+
+    /**
+     * Keeps using the selected tool as the pressed pointer moves
+     *
+     * @param point - Pointer position in world coordinates
+     * @param moved - True once the pointer moved too far to be a tap
+     */
+    public drag(point: Matter.Vector, moved: boolean): void {
+        if (!this.pressed) {
+            return;
+        }
+
+        switch (this.tool) {
+            case "select":
+                if (this.band) {
+                    this.band.end = point;
+                }
+                break;
+            case "rotate":
+                if (this.rotation) {
+                    const { body, pointerAngle, bodyAngle } = this.rotation;
+                    Matter.Body.setAngle(
+                        body,
+                        bodyAngle + ToolPalette.getAngle(body, point) - pointerAngle,
+                    );
+                    Matter.Body.setAngularVelocity(body, 0);
+                }
+                break;
+            case "spawn": {
+                // Limit the creation rate to avoid creating too many bodies
+                const currentTime = Date.now();
+                if (
+                    moved &&
+                    currentTime - this.lastSpawnTime >= ToolPalette.SPAWN_INTERVAL
+                ) {
+                    this.actions.spawn(point, this.spawnShape);
+                    this.lastSpawnTime = currentTime;
+                }
+                break;
+            }
+            case "eraser":
+                this.actions.removeAt(point, false);
+                break;
+            default:
+                break;
+        }
+    }
+
+    /**
+     * Stops using the selected tool, as the primary button is released
+     *
+     * Releasing a rectangle selection selects the bodies entirely inside it.
+     */
+    public release(): void {
+        if (this.band) {
+            const bounds = Matter.Bounds.create([this.band.start, this.band.end]);
+            const bodies = Matter.Query.region(this.engine.getAllBodies(), bounds)
+                .filter((body) =>
+                    ToolPalette.isSelectable(body) &&
+                    Matter.Bounds.contains(bounds, body.bounds.min) &&
+                    Matter.Bounds.contains(bounds, body.bounds.max)
+                );
+            if (this.band.additive) {
+                this.selection.add(bodies);
+            } else {
+                this.selection.set(bodies);
+            }
+            this.band = null;
+        }
+
+        this.pressed = false;
+        this.rotation = null;
+        this.updateCursor();
+    }
+
+    /**
+     * Highlights the body the selected tool would act on
+     *
+     * @param point - Pointer position in world coordinates, or null when the
+     * pointer left the canvas
+     */
+    public hover(point: Matter.Vector | null): void {
+        // Keep highlighting the body being rotated, even when the pointer leaves it
+        if (this.rotation) {
+            this.hovered = this.rotation.body;
+        } else if (!point || this.tool === "spawn") {
+            this.hovered = null;
+        } else {
+            this.hovered = this.tool === "select"
+                ? this.findSelectable(point)
+                : this.findBody(point);
+        }
+    }
+
+    /**
+     * Finds the dynamic body at a point
+     *
+     * @param point - Point in world coordinates
+     * @returns The first dynamic body found, or null
+     */
+    private findBody(point: Matter.Vector): Matter.Body | null {
+        return Matter.Query.point(this.engine.getAllBodies(), point).find((body) =>
+            !body.isStatic && !body.isSensor
+        ) ?? null;
+    }
+
+    /**
+     * Finds the body the select tool can select at a point
+     *
+     * @param point - Point in world coordinates
+     * @returns The first body found, or null
+     */
+    private findSelectable(point: Matter.Vector): Matter.Body | null {
+        return Matter.Query.point(this.engine.getAllBodies(), point).find((body) =>
+            ToolPalette.isSelectable(body)
+        ) ?? null;
+    }
+
+    /**
+     * Checks if the select tool can select a body
+     *
+     * Static obstacles can be selected, but not the arena: its walls and the goal
+     * zones are placed by their components (moving zones reposition their walls
+     * on every update). Sensors (goal zones, captured bodies) cannot either.
+     *
+     * @param body - The body
+     * @returns True if it can be selected
+     */
+    private static isSelectable(body: Matter.Body): boolean {
+        return !body.isSensor &&
+            body.label !== BoundaryWalls.LABEL &&
+            body.label !== BoundaryBox.WALL_LABEL;
+    }
+
+    /**
+     * Shows the cursor of the selected tool over the canvas
+     */
+    private updateCursor(): void {
+        const canvas = this.engine.getCanvas();
+        if (!canvas) {
+            return;
+        }
+
+        canvas.style.cursor = this.tool === "move" && this.pressed
+            ? "grabbing"
+            : ToolPalette.CURSORS[this.tool];
+    }
+
+    /**
+     * Forgets a body leaving the world (engine event handler)
+     */
+    private handleBodyRemoved = ({ body }: { body: Matter.Body }): void => {
+        if (this.hovered === body) {
+            this.hovered = null;
+        }
+        if (this.rotation?.body === body) {
+            this.rotation = null;
+        }
+    };
+
+    /**
+     * Outlines the selected and hovered bodies, and draws the rectangle being
+     * dragged (Matter.js event handler)
+     */
+    private draw = (): void => {
+        const render = this.engine.getRender();
+        const selected = this.selection.getBodies();
+        if (!render || (selected.length === 0 && !this.hovered && !this.band)) {
+            return;
+        }
+
+        const context = render.context;
+        RenderTransforms.startViewTransform(render);
+        context.save();
+
+        for (const body of selected) {
+            ToolPalette.outline(context, body);
+            context.strokeStyle = "rgba(255, 193, 7, 0.9)";
+            context.lineWidth = 4;
+            context.stroke();
+        }
+        if (this.hovered) {
+            ToolPalette.outline(context, this.hovered);
+            context.strokeStyle = "rgba(255, 255, 255, 0.8)";
+            context.lineWidth = 3;
+            context.stroke();
+        }
+        if (this.band) {
+            const { start, end } = this.band;
+            context.fillStyle = "rgba(255, 193, 7, 0.15)";
+            context.strokeStyle = "rgba(255, 193, 7, 0.9)";
+            context.lineWidth = 1;
+            context.setLineDash([6, 4]);
+            context.fillRect(start.x, start.y, end.x - start.x, end.y - start.y);
+            context.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+        }
+
+        context.restore();
+        RenderTransforms.endViewTransform(render);
+    };
+
+    /**
+     * Adds the outline of a body to a new path
+     *
+     * @param context - Canvas context, in world coordinates
+     * @param body - The body
+     */
+    private static outline(
+        context: CanvasRenderingContext2D,
+        body: Matter.Body,
+    ): void {
+        // Compound bodies list themselves first, then their parts
+        const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+
+        context.beginPath();
+        for (const part of parts) {
+            part.vertices.forEach((vertex, index) => {
+                if (index === 0) {
+                    context.moveTo(vertex.x, vertex.y);
+                } else {
+                    context.lineTo(vertex.x, vertex.y);
+                }
+            });
+            context.closePath();
+        }
+    }
+
+    /**
+     * Gets the direction of a point seen from a body's center
+     *
+     * @param body - The body
+     * @param point - The point, in world coordinates
+     * @returns The angle, in radians
+     */
+    private static getAngle(body: Matter.Body, point: Matter.Vector): number {
+        return Math.atan2(point.y - body.position.y, point.x - body.position.x);
+    }
+}
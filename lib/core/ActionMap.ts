@@ -0,0 +1,357 @@
+/**
+ * ActionMap.ts
+ *
+ * This file contains the ActionMap class, which binds the game actions (repel, spawn,
+ * delete, pause, undo...) to mouse buttons, keys and gamepad buttons, and saves the
+ * bindings in a key-value storage such as localStorage.
+ */
+
+import {
+    BindingConflict,
+    Bindings,
+    ControlAction,
+    InputBinding,
+    KeyValueStorage,
+} from "../types";
+
+/**
+ * ActionMap Class
+ *
+ * Input handlers ask the map which actions an input triggers instead of testing
+ * buttons and keys themselves, so every control can be rebound. An action can have
+ * several bindings. A binding with `ctrl` only matches while Ctrl is held; other
+ * bindings match with or without it (so Ctrl+click still repels a body).
+ *
+ * Like HighScores, it is a plain state store: settings screens subscribe to it
+ * (see the `useActionMap()` React hook) and read the bindings with `getState()`.
+ *
+ * @example
+ * const actionMap = new ActionMap(new LocalStorage());
+ * actionMap.setBindings("undo", [{ device: "keyboard", key: "u" }]);
+ * actionMap.matchKey("u", false); // ["undo"]
+ */
+export class ActionMap {
+    // Key the bindings are saved under
+    public static readonly STORAGE_KEY = "physics-game:bindings";
+    // Version of the saved data, increased when its format changes
+    public static readonly VERSION = 1;
+    // Bindings used until changed, and for actions missing from the saved data
+    public static readonly DEFAULT_BINDINGS: Bindings = {
+        repel: [
+            { device: "mouse", button: 0 },
+            { device: "gamepad", button: 6 },
+            { device: "gamepad", button: 7 },
+        ],
+        spawn: [
+            { device: "mouse", button: 0, ctrl: true },
+            { device: "gamepad", button: 0 },
+        ],
+        deleteAll: [
+            { device: "mouse", button: 2 },
+            { device: "gamepad", button: 1 },
+        ],
+        pan: [{ device: "mouse", button: 1 }],
+        delete: [
+            { device: "keyboard", key: "Delete" },
+            { device: "gamepad", button: 2 },
+        ],
+        pause: [
+            { device: "keyboard", key: " " },
+            { device: "keyboard", key: "p" },
+            { device: "gamepad", button: 9 },
+        ],
+        step: [{ device: "keyboard", key: "." }],
+        slower: [{ device: "keyboard", key: "[" }],
+        faster: [{ device: "keyboard", key: "]" }],
+        resetSpeed: [{ device: "keyboard", key: "\\" }],
+        follow: [{ device: "keyboard", key: "f" }],
+        fitAll: [{ device: "keyboard", key: "Home" }],
+        resetCamera: [{ device: "keyboard", key: "0" }],
+        undo: [
+            { device: "keyboard", key: "z" },
+            { device: "gamepad", button: 3 },
+        ],
+        rewind: [
+            { device: "keyboard", key: "Backspace" },
+            { device: "gamepad", button: 4 },
+        ],
+        cancelAim: [{ device: "keyboard", key: "Escape" }],
+        restart: [
+            { device: "keyboard", key: "r" },
+            { device: "gamepad", button: 8 },
+        ],
+    };
+
+    // Where the bindings are saved
+    private storage: KeyValueStorage;
+
+    // Bindings of every action, replaced (never mutated) on every change
+    private state: Bindings;
+
+    // Listeners notified on every change
+    private listeners: Set<() => void> = new Set();
+
+    /**
+     * ActionMap constructor
+     *
+     * @param storage - Where the bindings are loaded from and saved
+     */
+    constructor(storage: KeyValueStorage) {
+        this.storage = storage;
+        this.state = this.load();
+    }
+
+    /**
+     * Registers a listener called every time the bindings change
+     *
+     * @param listener - Function to call on change
+     * @returns A function that unsubscribes the listener
+     */
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Gets the bindings of every action
+     *
+     * The same object is returned until the bindings change.
+     *
+     * @returns Bindings by action
+     */
+    public getState(): Bindings {
+        return this.state;
+    }
+
+    /**
+     * Gets the inputs bound to an action
+     *
+     * @param action - The action
+     * @returns The bindings
+     */
+    public getBindings(action: ControlAction): InputBinding[] {
+        return this.state[action];
+    }
+
+    /**
+     * Replaces the inputs bound to an action and saves the bindings
+     *
+     * @param action - The action
+     * @param bindings - The new bindings (none to unbind the action)
+     */
+    public setBindings(action: ControlAction, bindings: InputBinding[]): void {
+        this.update({ ...this.state, [action]: bindings });
+    }
+
+    /**
+     * Restores the default bindings of one action, or of every action
+     *
+     * @param action - The action (default: all actions)
+     */
+    public reset(action?: ControlAction): void {
+        if (action === undefined) {
+            this.update({ ...ActionMap.DEFAULT_BINDINGS });
+        } else {
+            this.setBindings(action, ActionMap.DEFAULT_BINDINGS[action]);
+        }
+    }
+
+    /**
+     * Finds the actions bound to a key
+     *
+     * @param key - KeyboardEvent.key of the key
+     * @param ctrl - True if Ctrl is held
+     * @returns The actions
+     */
+    public matchKey(key: string, ctrl: boolean): ControlAction[] {
+        const normalized = ActionMap.normalizeKey(key);
+        return this.match((binding) =>
+            binding.device === "keyboard" &&
+            binding.key === normalized &&
+            (!binding.ctrl || ctrl)
+        );
+    }
+
+    /**
+     * Finds the actions bound to a mouse button
+     *
+     * @param button - The button: 0 (left), 1 (middle) or 2 (right)
+     * @param ctrl - True if Ctrl is held
+     * @returns The actions
+     */
+    public matchMouse(button: number, ctrl: boolean): ControlAction[] {
+        return this.match((binding) =>
+            binding.device === "mouse" &&
+            binding.button === button &&
+            (!binding.ctrl || ctrl)
+        );
+    }
+
+    /**
+     * Finds the actions bound to a gamepad button
+     *
+     * @param button - Button index in the standard gamepad mapping
+     * @returns The actions
+     */
+    public matchGamepad(button: number): ControlAction[] {
+        return this.match((binding) =>
+            binding.device === "gamepad" && binding.button === button
+        );
+    }
+
+    /**
+     * Finds the inputs bound to several actions
+     *
+     * Static, so displays can check the bindings they render (e.g. the ones
+     * returned by the `useActionMap()` hook).
+     *
+     * @param bindings - Bindings by action, e.g. from getState()
+     * @returns Each shared input, with the actions it is bound to
+     */
+    public static findConflicts(bindings: Bindings): BindingConflict[] {
+        const conflicts: BindingConflict[] = [];
+        const entries = Object.entries(bindings) as [
+            ControlAction,
+            InputBinding[],
+        ][];
+
+        for (const [action, actionBindings] of entries) {
+            for (const binding of actionBindings) {
+                const conflict = conflicts.find((candidate) =>
+                    ActionMap.isSameBinding(candidate.binding, binding)
+                );
+                if (!conflict) {
+                    conflicts.push({ binding: binding, actions: [action] });
+                } else if (!conflict.actions.includes(action)) {
+                    conflict.actions.push(action);
+                }
+            }
+        }
+
+        return conflicts.filter((conflict) => conflict.actions.length > 1);
+    }
+
+    /**
+     * Checks if two bindings are the same input
+     *
+     * @param a - First binding
+     * @param b - Second binding
+     * @returns True if they are equal
+     */
+    public static isSameBinding(a: InputBinding, b: InputBinding): boolean {
+        if (a.device === "keyboard" && b.device === "keyboard") {
+            return a.key === b.key && !a.ctrl === !b.ctrl;
+        }
+        if (a.device === "mouse" && b.device === "mouse") {
+            return a.button === b.button && !a.ctrl === !b.ctrl;
+        }
+        if (a.device === "gamepad" && b.device === "gamepad") {
+            return a.button === b.button;
+        }
+        return false;
+    }
+
+    /**
+     * Gets a readable name for a binding, e.g. for a settings screen
+     *
+     * @param binding - The binding
+     * @returns The name, e.g. "Ctrl+Left click" or "Gamepad button 3"
+     */
+    public static describe(binding: InputBinding): string {
+        const ctrl = binding.device !== "gamepad" && binding.ctrl ? "Ctrl+" : "";
+
+        switch (binding.device) {
+            case "keyboard":
+                return ctrl +
+                    (binding.key === " "
+                        ? "Space"
+                        : binding.key.length === 1
+                        ? binding.key.toUpperCase()
+                        : binding.key);
+            case "mouse":
+                return ctrl +
+                    (["Left", "Middle", "Right"][binding.button] ??
+                        `Button ${binding.button}`) +
+                    " click";
+            case "gamepad":
+                return `Gamepad button ${binding.button}`;
+        }
+    }
+
+    /**
+     * Normalizes a key so letters match regardless of Shift and Caps Lock
+     *
+     * @param key - KeyboardEvent.key of the key
+     * @returns The key, lowercase if it is a single character
+     */
+    public static normalizeKey(key: string): string {
+        return key.length === 1 ? key.toLowerCase() : key;
+    }
+
+    /**
+     * Finds the actions with a binding matching a test
+     *
+     * @param test - The test
+     * @returns The actions
+     */
+    private match(test: (binding: InputBinding) => boolean): ControlAction[] {
+        return this.entries()
+            .filter(([, bindings]) => bindings.some(test))
+            .map(([action]) => action);
+    }
+
+    /**
+     * Lists the bindings by action
+     *
+     * @returns Pairs of an action and its bindings
+     */
+    private entries(): [ControlAction, InputBinding[]][] {
+        return Object.entries(this.state) as [ControlAction, InputBinding[]][];
+    }
+
+    /**
+     * Replaces the bindings, saves them and notifies all listeners
+     *
+     * @param state - The new bindings
+     */
+    private update(state: Bindings): void {
+        this.state = state;
+        this.storage.setItem(
+            ActionMap.STORAGE_KEY,
+            JSON.stringify({ version: ActionMap.VERSION, bindings: state }),
+        );
+        this.listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Reads the saved bindings
+     *
+     * @returns Bindings by action (the defaults if nothing valid was saved)
+     */
+    private load(): Bindings {
+        const defaults = { ...ActionMap.DEFAULT_BINDINGS };
+        const saved = this.storage.getItem(ActionMap.STORAGE_KEY);
+        if (!saved) {
+            return defaults;
+        }
+
+        try {
+            const data = JSON.parse(saved);
+            if (data?.version !== ActionMap.VERSION) {
+                console.warn(`Ignoring saved bindings version ${data?.version}`);
+                return defaults;
+            }
+
+            // Actions added since the bindings were saved keep their defaults
+            for (const action of Object.keys(defaults) as ControlAction[]) {
+                if (Array.isArray(data.bindings?.[action])) {
+                    defaults[action] = data.bindings[action];
+                }
+            }
+            return defaults;
+        } catch (error) {
+            console.warn("Ignoring unreadable saved bindings:", error);
+            return defaults;
+        }
+    }
+}
@@ -0,0 +1,413 @@
+/**
+ * BodySelection.ts
+ *
+ * This file contains the BodySelection class, which keeps the bodies selected with
+ * the select tool, describes their properties for the inspector, and edits them:
+ * one property at a time or as a group (delete, duplicate, make static, align).
+ */
+
+import Matter from "matter-js";
+import { BodySerializer } from "../utils/BodySerializer";
+import { AlignMode, BodyProperties, BodyPropertyChanges } from "../types";
+import { Engine } from "./Engine";
+
+/**
+ * BodySelection Class
+ *
+ * Like GameManager, it is a plain state store: the inspector subscribes to it (see
+ * the `useBodySelection()` React hook) and reads the properties of the selected
+ * bodies with `getState()`. The state is refreshed once per animation frame while
+ * the physics runs, so positions and velocities are shown live, and after every
+ * edit, so edits show up while the game is paused.
+ *
+ * Bodies leave the selection when they leave the world (collected, removed, or
+ * replaced when a snapshot is restored). Edits act on the bodies directly and are
+ * not recorded, like dragging bodies in debug mode: each edited body is reported
+ * with the engine's bodyEdited event instead.
+ *
+ * @example
+ * const selection = new BodySelection();
+ * selection.setEngine(engine);
+ * selection.set(engine.getAllBodies().filter((body) => !body.isStatic));
+ * selection.align("bottom");
+ */
+export class BodySelection {
+    // Default distance between duplicated bodies and their originals
+    public static readonly DUPLICATE_OFFSET = { x: 20, y: 20 };
+    // Density given to bodies created static when they are made dynamic
+    // (the Matter.js default)
+    public static readonly DEFAULT_DENSITY = 0.001;
+
+    // Reference to the engine (null until attached)
+    private engine: Engine | null = null;
+
+    // Selected bodies, in selection order
+    private bodies: Matter.Body[] = [];
+
+    // Properties of the selected bodies, replaced (never mutated) on every change
+    private state: BodyProperties[] = [];
+
+    // Listeners notified on every change
+    private listeners: Set<() => void> = new Set();
+
+    // Pending refresh after physics updates, run on the next animation frame
+    private refreshRequestId: number | null = null;
+
+    /**
+     * Sets the engine the selected bodies belong to, clearing the selection
+     *
+     * @param engine - Reference to the physics engine
+     */
+    public setEngine(engine: Engine): void {
+        this.detachEngine();
+        this.engine = engine;
+        Matter.Events.on(engine.getEngine(), "afterUpdate", this.onAfterUpdate);
+        engine.on("bodyRemoved", this.handleBodyRemoved);
+        this.clear();
+    }
+
+    /**
+     * Detaches the selection from its engine and removes every listener
+     */
+    public destroy(): void {
+        this.detachEngine();
+        this.bodies = [];
+        this.state = [];
+        this.listeners.clear();
+    }
+
+    /**
+     * Registers a listener called every time the selection or the properties of
+     * the selected bodies change
+     *
+     * @param listener - Function to call on change
+     * @returns A function that unsubscribes the listener
+     */
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Gets the properties of the selected bodies
+     *
+     * The same array is returned until the selection or the properties change.
+     *
+     * @returns The properties, in selection order
+     */
+    public getState(): BodyProperties[] {
+        return this.state;
+    }
+
+    /**
+     * Gets the selected bodies
+     *
+     * @returns The bodies, in selection order
+     */
+    public getBodies(): Matter.Body[] {
+        return [...this.bodies];
+    }
+
+    /**
+     * Checks if a body is selected
+     *
+     * @param body - The body
+     * @returns True if it is selected
+     */
+    public has(body: Matter.Body): boolean {
+        return this.bodies.includes(body);
+    }
+
+    /**
+     * Replaces the selection
+     *
+     * @param bodies - The bodies to select
+     */
+    public set(bodies: Matter.Body[]): void {
+        this.bodies = [...new Set(bodies)];
+        this.refresh();
+    }
+
+    /**
+     * Adds bodies to the selection
+     *
+     * @param bodies - The bodies to add
+     */
+    public add(bodies: Matter.Body[]): void {
+        this.set([...this.bodies, ...bodies]);
+    }
+
+    /**
+     * Selects a body, or deselects it if it is selected
+     *
+     * @param body - The body
+     */
+    public toggle(body: Matter.Body): void {
+        this.set(
+            this.has(body)
+                ? this.bodies.filter((selected) => selected !== body)
+                : [...this.bodies, body],
+        );
+    }
+
+    /**
+     * Deselects every body
+     */
+    public clear(): void {
+        this.set([]);
+    }
+
+    /**
+     * Changes properties of a selected body
+     *
+     * Mass and density cannot change while the body is static (its mass is
+     * infinite), so the static flag is applied first.
+     *
+     * @param id - Id of the body
+     * @param changes - The properties to change
+     */
+    public update(id: number, changes: BodyPropertyChanges): void {
+        const body = this.bodies.find((selected) => selected.id === id);
+        if (!body) {
+            return;
+        }
+
+        if (changes.isStatic !== undefined) {
+            BodySelection.setBodyStatic(body, changes.isStatic);
+        }
+        if (changes.position) {
+            Matter.Body.setPosition(body, changes.position);
+        }
+        if (changes.angle !== undefined) {
+            Matter.Body.setAngle(body, changes.angle);
+        }
+        if (changes.velocity && !body.isStatic) {
+            Matter.Body.setVelocity(body, changes.velocity);
+        }
+        if (changes.density !== undefined && !body.isStatic) {
+            Matter.Body.setDensity(body, changes.density);
+        }
+        if (changes.mass !== undefined && !body.isStatic) {
+            Matter.Body.setMass(body, changes.mass);
+        }
+        if (changes.friction !== undefined) {
+            body.friction = changes.friction;
+        }
+        if (changes.restitution !== undefined) {
+            body.restitution = changes.restitution;
+        }
+        if (changes.fillStyle !== undefined) {
+            body.render.fillStyle = changes.fillStyle;
+        }
+        if (changes.strokeStyle !== undefined) {
+            body.render.strokeStyle = changes.strokeStyle;
+        }
+
+        this.engine?.emit("bodyEdited", { body: body });
+        this.refresh();
+    }
+
+    /**
+     * Removes the selected bodies from the world
+     */
+    public remove(): void {
+        const bodies = this.bodies;
+        this.clear();
+        bodies.forEach((body) => {
+            this.engine?.emit("bodyEdited", { body: body });
+            this.engine?.removeBody(body);
+        });
+    }
+
+    /**
+     * Adds a copy of each selected body to the world, and selects the copies
+     *
+     * @param offset - Distance between the copies and the originals
+     * @returns The copies
+     */
+    public duplicate(
+        offset: Matter.Vector = BodySelection.DUPLICATE_OFFSET,
+    ): Matter.Body[] {
+        if (!this.engine) {
+            return [];
+        }
+
+        const copies = this.bodies.map((body) => {
+            const snapshot = BodySerializer.serialize(body);
+            const move = (point: Matter.Vector) => Matter.Vector.add(point, offset);
+            return BodySerializer.create({
+                ...snapshot,
+                id: Matter.Common.nextId(),
+                vertices: snapshot.vertices.map(move),
+                position: move(snapshot.position),
+                positionPrev: move(snapshot.positionPrev),
+            });
+        });
+
+        copies.forEach((copy) => {
+            this.engine?.addBody(copy);
+            this.engine?.emit("bodyEdited", { body: copy });
+        });
+        this.set(copies);
+        return copies;
+    }
+
+    /**
+     * Makes the selected bodies static (fixed in place) or dynamic
+     *
+     * @param isStatic - True to make them static
+     */
+    public setStatic(isStatic: boolean): void {
+        this.bodies.forEach((body) => {
+            BodySelection.setBodyStatic(body, isStatic);
+            this.engine?.emit("bodyEdited", { body: body });
+        });
+        this.refresh();
+    }
+
+    /**
+     * Lines the selected bodies up on the edge or center of the group
+     *
+     * @param mode - Edge or center to line up on, e.g. "left" moves every body so
+     * its left edge touches the leftmost edge of the group
+     */
+    public align(mode: AlignMode): void {
+        if (this.bodies.length < 2) {
+            return;
+        }
+
+        const group = Matter.Bounds.create(
+            this.bodies.flatMap((body) => [body.bounds.min, body.bounds.max]),
+        );
+        for (const body of this.bodies) {
+            const { min, max } = body.bounds;
+            let shift: Matter.Vector;
+            switch (mode) {
+                case "left":
+                    shift = { x: group.min.x - min.x, y: 0 };
+                    break;
+                case "centerX":
+                    shift = {
+                        x: (group.min.x + group.max.x - min.x - max.x) / 2,
+                        y: 0,
+                    };
+                    break;
+                case "right":
+                    shift = { x: group.max.x - max.x, y: 0 };
+                    break;
+                case "top":
+                    shift = { x: 0, y: group.min.y - min.y };
+                    break;
+                case "centerY":
+                    shift = {
+                        x: 0,
+                        y: (group.min.y + group.max.y - min.y - max.y) / 2,
+                    };
+                    break;
+                case "bottom":
+                    shift = { x: 0, y: group.max.y - max.y };
+                    break;
+            }
+            Matter.Body.setPosition(
+                body,
+                Matter.Vector.add(body.position, shift),
+            );
+            this.engine?.emit("bodyEdited", { body: body });
+        }
+
+        this.refresh();
+    }
+
+    /**
+     * Makes a body static or dynamic
+     *
+     * Matter.js restores the mass a body had before it was made static. Bodies
+     * created static (walls, obstacles) never had one, so they get the default
+     * density and a mass computed from their shape.
+     *
+     * @param body - The body
+     * @param isStatic - True to make it static
+     */
+    private static setBodyStatic(body: Matter.Body, isStatic: boolean): void {
+        Matter.Body.setStatic(body, isStatic);
+        if (!isStatic && !Number.isFinite(body.mass)) {
+            body.density = BodySelection.DEFAULT_DENSITY;
+            // Recomputes the area, mass and inertia of the body from its density
+            Matter.Body.setVertices(body, body.vertices);
+        }
+    }
+
+    /**
+     * Stops following the current engine
+     */
+    private detachEngine(): void {
+        if (this.engine) {
+            Matter.Events.off(
+                this.engine.getEngine(),
+                "afterUpdate",
+                this.onAfterUpdate,
+            );
+            this.engine.off("bodyRemoved", this.handleBodyRemoved);
+        }
+        this.engine = null;
+
+        if (this.refreshRequestId !== null) {
+            cancelAnimationFrame(this.refreshRequestId);
+            this.refreshRequestId = null;
+        }
+    }
+
+    /**
+     * Shows the properties after the simulation moved the bodies, at most once
+     * per animation frame (Matter.js event handler)
+     */
+    private onAfterUpdate = (): void => {
+        if (this.bodies.length === 0 || this.refreshRequestId !== null) {
+            return;
+        }
+
+        if (typeof requestAnimationFrame === "undefined") {
+            // Headless: no frames to wait for
+            this.refresh();
+            return;
+        }
+
+        this.refreshRequestId = requestAnimationFrame(() => {
+            this.refreshRequestId = null;
+            this.refresh();
+        });
+    };
+
+    /**
+     * Deselects a body leaving the world (engine event handler)
+     */
+    private handleBodyRemoved = ({ body }: { body: Matter.Body }): void => {
+        if (this.has(body)) {
+            this.set(this.bodies.filter((selected) => selected !== body));
+        }
+    };
+
+    /**
+     * Reads the properties of the selected bodies and notifies all listeners
+     */
+    private refresh(): void {
+        this.state = this.bodies.map((body) => {
+            const velocity = Matter.Body.getVelocity(body);
+            return {
+                id: body.id,
+                label: body.label,
+                position: { x: body.position.x, y: body.position.y },
+                angle: body.angle,
+                velocity: { x: velocity.x, y: velocity.y },
+                mass: body.mass,
+                density: body.density,
+                friction: body.friction,
+                restitution: body.restitution,
+                isStatic: body.isStatic,
+                fillStyle: body.render.fillStyle ?? "",
+                strokeStyle: body.render.strokeStyle ?? "",
+            };
+        });
+        this.listeners.forEach((listener) => listener());
+    }
+}
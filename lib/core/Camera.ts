@@ -0,0 +1,330 @@
+/**
+ * Camera.ts
+ *
+ * This file contains the Camera class, which controls the part of the world shown by
+ * the renderer. It supports zooming around a point, panning, following a body and
+ * fitting all bodies in view, and converts between screen and world coordinates.
+ */
+
+import Matter from "matter-js";
+import { Engine } from "./Engine";
+
+/**
+ * Camera Class
+ *
+ * Moves the renderer's bounds (the renderer is created with `hasBounds: true`) and
+ * keeps the Matter.js mouse (used by mouse constraints) in sync with them.
+ * In headless mode the camera only keeps track of its bounds.
+ */
+export class Camera {
+    // Zoom limits (1 shows the world at its natural size)
+    public static readonly MIN_ZOOM = 0.25;
+    public static readonly MAX_ZOOM = 4;
+    // Fraction of the remaining distance covered each frame when following a body
+    public static readonly FOLLOW_SMOOTHING = 0.1;
+
+    // Reference to the physics engine
+    private engine: Engine;
+    // Size of the viewport in screen pixels
+    private viewport: { width: number; height: number };
+    // Visible region of the world (the renderer's bounds when there is a renderer)
+    private bounds: Matter.Bounds;
+    // Body followed by the camera, if any
+    private followedBody: Matter.Body | null = null;
+
+    /**
+     * Camera constructor
+     *
+     * @param engine - Reference to the physics engine
+     * @param width - Width of the viewport (default: the renderer's width)
+     * @param height - Height of the viewport (default: the renderer's height)
+     */
+    constructor(engine: Engine, width?: number, height?: number) {
+        this.engine = engine;
+
+        const render = this.engine.getRender();
+        this.viewport = {
+            width: width ?? render?.options.width ?? 800,
+            height: height ?? render?.options.height ?? 600,
+        };
+        this.bounds = render ? render.bounds : {
+            min: { x: 0, y: 0 },
+            max: { x: this.viewport.width, y: this.viewport.height },
+        };
+
+        // Move towards the followed body every frame (even while paused), and keep
+        // mice attached to the renderer later on (e.g. by DebugControl) in sync
+        if (render) {
+            Matter.Events.on(render, "beforeRender", this.handleFrame);
+        } else {
+            Matter.Events.on(
+                this.engine.getEngine(),
+                "afterUpdate",
+                this.handleFrame,
+            );
+        }
+
+        this.engine.registerComponent(this);
+    }
+
+    /**
+     * Stops following and removes the frame handler
+     */
+    public destroy(): void {
+        this.followedBody = null;
+
+        const render = this.engine.getRender();
+        if (render) {
+            Matter.Events.off(render, "beforeRender", this.handleFrame);
+        } else {
+            Matter.Events.off(
+                this.engine.getEngine(),
+                "afterUpdate",
+                this.handleFrame,
+            );
+        }
+
+        this.engine.unregisterComponent(this);
+    }
+
+    /**
+     * Updates the view every frame (Matter.js event handler)
+     */
+    private handleFrame = (): void => {
+        this.updateFollow();
+        this.syncMouse();
+    };
+
+    /**
+     * Converts a point from screen (canvas) coordinates to world coordinates
+     *
+     * @param point - Point relative to the top-left corner of the canvas
+     * @returns The point in the world
+     */
+    public screenToWorld(point: { x: number; y: number }): { x: number; y: number } {
+        const scale = this.getScale();
+        return {
+            x: this.bounds.min.x + point.x * scale,
+            y: this.bounds.min.y + point.y * scale,
+        };
+    }
+
+    /**
+     * Converts a point from world coordinates to screen (canvas) coordinates
+     *
+     * @param point - Point in the world
+     * @returns The point relative to the top-left corner of the canvas
+     */
+    public worldToScreen(point: { x: number; y: number }): { x: number; y: number } {
+        const scale = this.getScale();
+        return {
+            x: (point.x - this.bounds.min.x) / scale,
+            y: (point.y - this.bounds.min.y) / scale,
+        };
+    }
+
+    /**
+     * Gets the current zoom level
+     *
+     * @returns The zoom (above 1 when zoomed in, below 1 when zoomed out)
+     */
+    public getZoom(): number {
+        return 1 / this.getScale();
+    }
+
+    /**
+     * Zooms in or out, keeping the world point under a screen point in place
+     *
+     * @param point - Screen point to zoom around (e.g. the cursor)
+     * @param factor - Zoom multiplier (above 1 zooms in, below 1 zooms out)
+     */
+    public zoomAt(point: { x: number; y: number }, factor: number): void {
+        const anchor = this.screenToWorld(point);
+        const zoom = Math.min(
+            Camera.MAX_ZOOM,
+            Math.max(Camera.MIN_ZOOM, this.getZoom() * factor),
+        );
+        const scale = 1 / zoom;
+
+        this.setBounds(
+            anchor.x - point.x * scale,
+            anchor.y - point.y * scale,
+            scale,
+        );
+    }
+
+    /**
+     * Moves the view by a distance in screen pixels
+     *
+     * Panning stops following a body.
+     *
+     * @param dx - Horizontal distance (positive moves the content right)
+     * @param dy - Vertical distance (positive moves the content down)
+     */
+    public pan(dx: number, dy: number): void {
+        const scale = this.getScale();
+        this.followedBody = null;
+        this.setBounds(
+            this.bounds.min.x - dx * scale,
+            this.bounds.min.y - dy * scale,
+            scale,
+        );
+    }
+
+    /**
+     * Centers the view on a world point
+     *
+     * @param point - Point in the world
+     */
+    public centerOn(point: { x: number; y: number }): void {
+        const scale = this.getScale();
+        this.setBounds(
+            point.x - this.viewport.width * scale / 2,
+            point.y - this.viewport.height * scale / 2,
+            scale,
+        );
+    }
+
+    /**
+     * Smoothly tracks a body, or stops following
+     *
+     * @param body - The body to follow, or null to stop
+     */
+    public follow(body: Matter.Body | null): void {
+        this.followedBody = body;
+    }
+
+    /**
+     * Gets the body followed by the camera
+     *
+     * @returns The followed body, or null
+     */
+    public getFollowedBody(): Matter.Body | null {
+        return this.followedBody;
+    }
+
+    /**
+     * Zooms and moves the view so that every body is visible
+     *
+     * @param padding - Margin around the bodies in world units (default: 50)
+     */
+    public fitAll(padding: number = 50): void {
+        const bodies = this.engine.getAllBodies();
+        if (bodies.length === 0) {
+            return;
+        }
+
+        this.followedBody = null;
+
+        // Find the region covered by all bodies
+        const min = { x: Infinity, y: Infinity };
+        const max = { x: -Infinity, y: -Infinity };
+        for (const body of bodies) {
+            min.x = Math.min(min.x, body.bounds.min.x);
+            min.y = Math.min(min.y, body.bounds.min.y);
+            max.x = Math.max(max.x, body.bounds.max.x);
+            max.y = Math.max(max.y, body.bounds.max.y);
+        }
+
+        // Fit the region (with padding) while keeping the viewport's aspect ratio
+        const width = max.x - min.x + padding * 2;
+        const height = max.y - min.y + padding * 2;
+        const zoom = Math.min(
+            Camera.MAX_ZOOM,
+            Math.max(
+                Camera.MIN_ZOOM,
+                Math.min(
+                    this.viewport.width / width,
+                    this.viewport.height / height,
+                ),
+            ),
+        );
+        const scale = 1 / zoom;
+
+        this.setBounds(
+            (min.x + max.x) / 2 - this.viewport.width * scale / 2,
+            (min.y + max.y) / 2 - this.viewport.height * scale / 2,
+            scale,
+        );
+    }
+
+    /**
+     * Resets the view to show the world at its natural size from the origin
+     */
+    public reset(): void {
+        this.followedBody = null;
+        this.setBounds(0, 0, 1);
+    }
+
+    /**
+     * Gets the visible region of the world
+     *
+     * @returns The camera bounds
+     */
+    public getBounds(): Matter.Bounds {
+        return this.bounds;
+    }
+
+    /**
+     * Gets the number of world units per screen pixel
+     *
+     * @returns The scale
+     */
+    private getScale(): number {
+        return (this.bounds.max.x - this.bounds.min.x) / this.viewport.width;
+    }
+
+    /**
+     * Sets the visible region of the world and syncs the mouse with it
+     *
+     * @param minX - Left edge in world units
+     * @param minY - Top edge in world units
+     * @param scale - Number of world units per screen pixel
+     */
+    private setBounds(minX: number, minY: number, scale: number): void {
+        this.bounds.min.x = minX;
+        this.bounds.min.y = minY;
+        this.bounds.max.x = minX + this.viewport.width * scale;
+        this.bounds.max.y = minY + this.viewport.height * scale;
+
+        this.syncMouse();
+    }
+
+    /**
+     * Keeps mouse constraints (e.g. debug dragging) working in world coordinates
+     */
+    private syncMouse(): void {
+        const mouse = this.engine.getRender()?.mouse;
+        if (mouse) {
+            const scale = this.getScale();
+            Matter.Mouse.setScale(mouse, { x: scale, y: scale });
+            Matter.Mouse.setOffset(mouse, this.bounds.min);
+        }
+    }
+
+    /**
+     * Moves the view towards the followed body
+     */
+    private updateFollow(): void {
+        if (!this.followedBody) {
+            return;
+        }
+
+        // Stop following bodies that left the world
+        if (!this.engine.getAllBodies().includes(this.followedBody)) {
+            this.followedBody = null;
+            return;
+        }
+
+        const center = {
+            x: (this.bounds.min.x + this.bounds.max.x) / 2,
+            y: (this.bounds.min.y + this.bounds.max.y) / 2,
+        };
+        const target = this.followedBody.position;
+
+        this.centerOn({
+            x: center.x + (target.x - center.x) * Camera.FOLLOW_SMOOTHING,
+            y: center.y + (target.y - center.y) * Camera.FOLLOW_SMOOTHING,
+        });
+    }
+}
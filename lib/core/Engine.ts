@@ -7,7 +7,20 @@
  */
 
 import Matter from "matter-js";
-import { SimulationInstance, SimulationOptions } from "../types";
+import {
+    BodySnapshot,
+    Destroyable,
+    EngineEvents,
+    SimulationInstance,
+    SimulationOptions,
+    WorldSnapshot,
+} from "../types";
+import { BodySerializer } from "../utils/BodySerializer";
+import { EventBus, EventHandler } from "../utils/EventBus";
+import { MatterInternals } from "../utils/MatterInternals";
+import { PairSerializer } from "../utils/PairSerializer";
+import { Random } from "../utils/Random";
+import type { GameManager } from "./GameManager";
 
 /**
  * Engine Class
@@ -17,17 +30,83 @@ import { SimulationInstance, SimulationOptions } from "../types";
  * - Adding and removing bodies from the simulation
  * - Starting and stopping the simulation
  * - Accessing various components of the simulation
+ *
+ * When no DOM element is given in the options, the engine runs headless: no
+ * renderer or runner is created and the simulation is advanced either with
+ * `step()` or with a timer started by `start()`. This allows the physics and
+ * game logic to run in Node, in a worker or in tests.
+ *
+ * With a seed and a fixed time step, the same inputs always produce the same
+ * body positions frame by frame.
+ *
+ * The whole world can be saved to a versioned JSON snapshot with `serialize()`
+ * and rebuilt from it with `restore()`.
+ *
+ * Unlike `stop()`, `pause()` only freezes the physics: the scene keeps being
+ * rendered, can be advanced with `stepOnce()` and slowed down or sped up with
+ * `setTimeScale()`.
+ *
+ * Simulation and game events (bodies added, removed, repelled or scored, attempts,
+ * game over, restart...) are published on a typed event bus: subscribe with
+ * `on()`, `once()` and `off()` instead of listening to Matter.js events directly.
+ *
+ * Components bound to the engine register themselves with `registerComponent()`,
+ * so `destroy()` tears the whole scene down and it can be mounted again cleanly.
  */
 export class Engine {
+    // Default time step for a single physics update (60 updates per second)
+    public static readonly DEFAULT_DELTA = 1000 / 60;
+    // Version of the snapshot format written by serialize()
+    public static readonly SNAPSHOT_VERSION = 1;
+    // Range of speeds accepted by setTimeScale()
+    public static readonly MIN_TIME_SCALE = 0.125;
+    public static readonly MAX_TIME_SCALE = 4;
+    // Most fixed updates run in one animation frame (after a long stall, the
+    // simulation falls behind real time instead of freezing the page to catch up)
+    public static readonly MAX_STEPS_PER_FRAME = 5;
+
     // Core Matter.js components
     private engine: Matter.Engine; // The physics engine
     private world: Matter.World; // The physics world (container for all bodies)
-    private render: Matter.Render; // The renderer for visualizing the simulation
-    private runner: Matter.Runner; // The runner for updating the simulation
+    private render: Matter.Render | null = null; // The renderer for visualizing the simulation
+    private runner: Matter.Runner | null = null; // The runner for updating the simulation
+
+    // Headless mode (no renderer, no runner, physics only)
+    private headless: boolean;
+    // Timer used to advance the simulation when running headless
+    private headlessTimer: ReturnType<typeof setInterval> | null = null;
+
+    // Seeded random number generator driving every random choice
+    private random: Random;
+    // Fixed time step in milliseconds, or null for variable timing
+    private fixedTimeStep: number | null;
+    // Animation frame request used by the fixed time step loop
+    private frameRequestId: number | null = null;
+
+    // Game manager whose progress is included in snapshots
+    private gameManager: GameManager | null = null;
+
+    // Number of physics updates performed so far
+    private tick: number = 0;
+
+    // Id given to the next body added. Ids are counted per engine (not by
+    // Matter.js, across engines), so a replay gives its bodies the same ids.
+    private nextBodyId: number = 1;
+
+    // Whether the physics is paused (rendering continues)
+    private paused: boolean = false;
+
+    // Typed bus for simulation and game events
+    private events: EventBus<EngineEvents> = new EventBus<EngineEvents>();
+
+    // Components destroyed along with the engine
+    private components: Destroyable[] = [];
 
     // Mouse interaction components
     private mouse: Matter.Mouse;
     private mouseConstraint: Matter.MouseConstraint;
+    // Components dragging bodies with the mouse constraint (in the world while any)
+    private mouseConstraintUsers: Set<object> = new Set();
 
     /**
      * Engine constructor
@@ -40,6 +119,19 @@ export class Engine {
         // Get a reference to the world (container for all bodies)
         this.world = this.engine.world;
 
+        // Create the random number generator from the seed (if any)
+        this.random = new Random(options.seed);
+        this.fixedTimeStep = options.fixedTimeStep ?? null;
+
+        // Count physics updates, whichever loop performs them
+        Matter.Events.on(this.engine, "afterUpdate", this.countTick);
+
+        // Without an element to render into, run physics only
+        this.headless = !options.element;
+        if (this.headless) {
+            return;
+        }
+
         // Calculate the device pixel ratio for sharp rendering
         const pixelRatio = window.devicePixelRatio || 1;
 
@@ -58,8 +150,26 @@ export class Engine {
             },
         });
 
+        // Create the mouse and the constraint dragging bodies with it, shared by the
+        // components that need them (added to the world by enableMouseConstraint())
+        this.mouse = Matter.Mouse.create(this.render.canvas);
+        this.render.mouse = this.mouse;
+        this.mouseConstraint = Matter.MouseConstraint.create(this.engine, {
+            mouse: this.mouse,
+            constraint: {
+                stiffness: 0.2, // How rigid the constraint is
+                render: {
+                    visible: true, // Show the constraint when dragging
+                },
+            },
+        });
+        Matter.Events.on(this.mouseConstraint, "startdrag", this.onStartDrag);
+
         // Create the runner for updating the simulation
-        this.runner = Matter.Runner.create();
+        // (not needed with a fixed time step, which runs its own frame loop)
+        if (this.fixedTimeStep === null) {
+            this.runner = Matter.Runner.create();
+        }
     }
 
     /**
@@ -67,10 +177,28 @@ export class Engine {
      *
      * This method starts both the renderer and the physics runner,
      * which begins the animation and physics calculations.
+     * With a fixed time step, updates follow real time: as many are performed in each
+     * animation frame as the time elapsed since the previous frame allows.
+     * In headless mode a timer steps the physics instead.
      */
     public start(): void {
-        Matter.Render.run(this.render);
-        Matter.Runner.run(this.runner, this.engine);
+        if (this.render) {
+            Matter.Render.run(this.render);
+        }
+
+        if (this.runner) {
+            Matter.Runner.run(this.runner, this.engine);
+        } else if (!this.headless) {
+            // Fixed time step: as many updates per animation frame as real time allows
+            this.runFixedLoop();
+        } else if (!this.headlessTimer) {
+            // Headless: advance the simulation with a plain timer
+            this.headlessTimer = setInterval(() => {
+                if (!this.paused) {
+                    this.step();
+                }
+            }, this.getTimeStep());
+        }
     }
 
     /**
@@ -80,17 +208,331 @@ export class Engine {
      * which pauses the animation and physics calculations.
      */
     public stop(): void {
-        Matter.Render.stop(this.render);
-        Matter.Runner.stop(this.runner);
+        if (this.render) {
+            Matter.Render.stop(this.render);
+        }
+
+        if (this.runner) {
+            Matter.Runner.stop(this.runner);
+        }
+
+        if (this.frameRequestId !== null) {
+            cancelAnimationFrame(this.frameRequestId);
+            this.frameRequestId = null;
+        }
+
+        if (this.headlessTimer) {
+            clearInterval(this.headlessTimer);
+            this.headlessTimer = null;
+        }
+    }
+
+    /**
+     * Counts a physics update (Matter.js afterUpdate handler)
+     */
+    private countTick = (): void => {
+        this.tick++;
+    };
+
+    /**
+     * Reports a body grabbed with the mouse constraint (Matter.js startdrag handler)
+     */
+    private onStartDrag = (): void => {
+        this.emit("bodyEdited", { body: this.mouseConstraint.body });
+    };
+
+    /**
+     * Registers a component to destroy along with the engine
+     *
+     * @param component - The component (e.g. walls, input handler, UI control)
+     */
+    public registerComponent(component: Destroyable): void {
+        if (!this.components.includes(component)) {
+            this.components.push(component);
+        }
+    }
+
+    /**
+     * Forgets a registered component, e.g. when it is destroyed on its own
+     *
+     * @param component - The component to forget
+     */
+    public unregisterComponent(component: Destroyable): void {
+        const index = this.components.indexOf(component);
+        if (index !== -1) {
+            this.components.splice(index, 1);
+        }
+    }
+
+    /**
+     * Destroys the simulation
+     *
+     * Destroys every registered component (most recent first, as they may depend on
+     * earlier ones), stops the loops, removes the canvas, clears the world and
+     * removes every event handler. The engine cannot be used afterwards.
+     */
+    public destroy(): void {
+        while (this.components.length > 0) {
+            this.components.pop()!.destroy();
+        }
+
+        this.stop();
+
+        if (this.render) {
+            this.render.canvas.remove();
+            this.render.textures = {};
+        }
+
+        Matter.Events.off(this.engine, "afterUpdate", this.countTick);
+        if (this.mouseConstraint) {
+            Matter.Events.off(this.mouseConstraint, "startdrag", this.onStartDrag);
+        }
+        this.mouseConstraintUsers.clear();
+        Matter.Composite.clear(this.world, false);
+        Matter.Engine.clear(this.engine);
+
+        this.gameManager = null;
+        this.events.clear();
+    }
+
+    /**
+     * Runs the fixed time step loop
+     *
+     * The real time elapsed between animation frames is accumulated, and spent in
+     * fixed updates, so the simulation runs at the same speed whatever the refresh
+     * rate of the screen (two updates per frame at 30 Hz, one every other frame at
+     * 120 Hz) and catches up after dropped frames.
+     */
+    private runFixedLoop(): void {
+        const timeStep = this.getTimeStep();
+        let accumulated = 0;
+        let lastTime: number | null = null;
+
+        const onFrame = (time: number) => {
+            this.frameRequestId = requestAnimationFrame(onFrame);
+
+            const elapsed = lastTime === null ? 0 : time - lastTime;
+            lastTime = time;
+            if (this.paused) {
+                accumulated = 0;
+                return;
+            }
+
+            accumulated += elapsed;
+            let steps = 0;
+            while (accumulated >= timeStep && steps < Engine.MAX_STEPS_PER_FRAME) {
+                this.step();
+                accumulated -= timeStep;
+                steps++;
+            }
+            // Drop the time that could not be caught up on
+            if (steps === Engine.MAX_STEPS_PER_FRAME) {
+                accumulated = Math.min(accumulated, timeStep);
+            }
+        };
+        this.frameRequestId = requestAnimationFrame(onFrame);
+    }
+
+    /**
+     * Advances the physics simulation manually by a single update
+     *
+     * Useful in headless mode, or to step the world while the runner is stopped.
+     *
+     * @param delta - Time step in milliseconds (default: the fixed time step, or 1000 / 60)
+     */
+    public step(delta: number = this.getTimeStep()): void {
+        Matter.Engine.update(this.engine, delta);
+    }
+
+    /**
+     * Pauses the physics while the scene keeps being rendered
+     */
+    public pause(): void {
+        this.setPaused(true);
+    }
+
+    /**
+     * Resumes the physics after a pause
+     */
+    public resume(): void {
+        this.setPaused(false);
+    }
+
+    /**
+     * Checks if the physics is paused
+     *
+     * @returns True if paused, false otherwise
+     */
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Advances the physics by a single update, e.g. to go frame by frame while paused
+     */
+    public stepOnce(): void {
+        this.step();
+    }
+
+    /**
+     * Sets the speed of the simulation
+     *
+     * @param timeScale - 1 for normal speed, below 1 for slow motion, above 1 to fast-forward
+     * (clamped between MIN_TIME_SCALE and MAX_TIME_SCALE)
+     */
+    public setTimeScale(timeScale: number): void {
+        this.engine.timing.timeScale = Math.min(
+            Engine.MAX_TIME_SCALE,
+            Math.max(Engine.MIN_TIME_SCALE, timeScale),
+        );
+        this.notifyTimingChange();
+    }
+
+    /**
+     * Gets the speed of the simulation
+     *
+     * @returns The time scale (1 is normal speed)
+     */
+    public getTimeScale(): number {
+        return this.engine.timing.timeScale;
+    }
+
+    /**
+     * Pauses or resumes the physics
+     *
+     * @param paused - True to pause, false to resume
+     */
+    private setPaused(paused: boolean): void {
+        this.paused = paused;
+
+        // The runner keeps the frame loop (and rendering) alive but skips updates
+        if (this.runner) {
+            this.runner.enabled = !paused;
+        }
+
+        this.notifyTimingChange();
+    }
+
+    /**
+     * Emits a timingChange event with the current pause state and time scale
+     */
+    private notifyTimingChange(): void {
+        this.emit("timingChange", {
+            paused: this.paused,
+            timeScale: this.getTimeScale(),
+        });
+    }
+
+    /**
+     * Registers a handler called every time an event is emitted
+     *
+     * @param event - Name of the event
+     * @param handler - Function to call with the event payload
+     */
+    public on<Name extends keyof EngineEvents>(
+        event: Name,
+        handler: EventHandler<EngineEvents[Name]>,
+    ): void {
+        this.events.on(event, handler);
+    }
+
+    /**
+     * Removes a handler previously registered with on() or once()
+     *
+     * @param event - Name of the event
+     * @param handler - The handler to remove
+     */
+    public off<Name extends keyof EngineEvents>(
+        event: Name,
+        handler: EventHandler<EngineEvents[Name]>,
+    ): void {
+        this.events.off(event, handler);
+    }
+
+    /**
+     * Registers a handler called only the next time an event is emitted
+     *
+     * @param event - Name of the event
+     * @param handler - Function to call with the event payload
+     * @returns The registered wrapper, which can be passed to off() to cancel it
+     */
+    public once<Name extends keyof EngineEvents>(
+        event: Name,
+        handler: EventHandler<EngineEvents[Name]>,
+    ): EventHandler<EngineEvents[Name]> {
+        return this.events.once(event, handler);
+    }
+
+    /**
+     * Emits an event to every registered handler
+     *
+     * @param event - Name of the event
+     * @param payload - Data passed to the handlers
+     */
+    public emit<Name extends keyof EngineEvents>(
+        event: Name,
+        payload: EngineEvents[Name],
+    ): void {
+        this.events.emit(event, payload);
+    }
+
+    /**
+     * Gets the time step used for a single physics update
+     *
+     * @returns The fixed time step if set, otherwise the default of 1000 / 60 ms
+     */
+    public getTimeStep(): number {
+        return this.fixedTimeStep ?? Engine.DEFAULT_DELTA;
+    }
+
+    /**
+     * Gets the number of physics updates performed so far
+     *
+     * Inputs recorded against this tick can be replayed at exactly the same point
+     * of the simulation.
+     *
+     * @returns The current simulation tick
+     */
+    public getTick(): number {
+        return this.tick;
+    }
+
+    /**
+     * Checks if the engine uses a fixed time step
+     *
+     * @returns True if every update uses the same time step, false otherwise
+     */
+    public isFixedTimeStep(): boolean {
+        return this.fixedTimeStep !== null;
+    }
+
+    /**
+     * Checks if the engine is running without a renderer
+     *
+     * @returns True if the engine is headless (physics only), false otherwise
+     */
+    public isHeadless(): boolean {
+        return this.headless;
     }
 
     /**
      * Adds a body or array of bodies to the physics world
      *
+     * The bodies get new ids from this engine, replacing the ones Matter.js gave.
+     *
      * @param body - A single physics body or array of bodies to add
      */
     public addBody(body: Matter.Body | Matter.Body[]): void {
-        Matter.Composite.add(this.world, body);
+        const bodies = Array.isArray(body) ? body : [body];
+
+        // Number the bodies (and their parts) in the order they are added
+        for (const added of bodies) {
+            for (const part of added.parts) {
+                part.id = this.nextBodyId++;
+            }
+        }
+
+        this.insertBodies(bodies);
     }
 
     /**
@@ -99,7 +541,38 @@ export class Engine {
      * @param body - The physics body to remove
      */
     public removeBody(body: Matter.Body): void {
+        // Nothing to do for bodies already removed (e.g. collected by a goal)
+        if (!Matter.Composite.get(this.world, body.id, "body")) {
+            return;
+        }
+
         Matter.Composite.remove(this.world, body);
+        this.emit("bodyRemoved", { body: body });
+    }
+
+    /**
+     * Numbers the bodies added from now on from 1 again, if the world is empty
+     *
+     * Called before building a level, so the level's bodies get the same ids in
+     * every engine (and a recording made after a restart replays in a new one).
+     */
+    public resetBodyIds(): void {
+        if (this.getAllBodies().length === 0) {
+            this.nextBodyId = 1;
+        }
+    }
+
+    /**
+     * Puts bodies in the world as they are, keeping their ids
+     *
+     * @param bodies - The bodies to add
+     */
+    private insertBodies(bodies: Matter.Body[]): void {
+        Matter.Composite.add(this.world, bodies);
+
+        for (const added of bodies) {
+            this.emit("bodyAdded", { body: added });
+        }
     }
 
     /**
@@ -111,9 +584,165 @@ export class Engine {
         return Matter.Composite.allBodies(this.world);
     }
 
+    /**
+     * Sets the game manager whose score and attempts are saved in snapshots
+     *
+     * Called by GameManager.setEngine().
+     *
+     * @param gameManager - The game manager, or null to detach it
+     */
+    public setGameManager(gameManager: GameManager | null): void {
+        this.gameManager = gameManager;
+    }
+
+    /**
+     * Gets the game manager attached to this engine
+     *
+     * @returns The game manager, or null when the simulation is not a game
+     */
+    public getGameManager(): GameManager | null {
+        return this.gameManager;
+    }
+
+    /**
+     * Writes the whole world to a versioned, JSON-compatible snapshot
+     *
+     * @returns Snapshot of every body and collision pair, the random generator
+     * state and the game progress
+     */
+    public serialize(): WorldSnapshot {
+        const snapshot: WorldSnapshot = {
+            version: Engine.SNAPSHOT_VERSION,
+            timestamp: this.engine.timing.timestamp,
+            timeScale: this.engine.timing.timeScale,
+            tick: this.tick,
+            nextBodyId: this.nextBodyId,
+            randomState: this.random.getState(),
+            bodies: this.getAllBodies().map((body) =>
+                BodySerializer.serialize(body)
+            ),
+            pairs: PairSerializer.serializeAll(this.engine),
+        };
+
+        if (this.gameManager) {
+            snapshot.game = {
+                score: this.gameManager.getScore(),
+                attempts: this.gameManager.getAttempts(),
+                zoneScores: this.gameManager.getZoneScores(),
+                breakdown: this.gameManager.getBreakdown(),
+            };
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Rebuilds the world from a snapshot
+     *
+     * Bodies still in the world with the same id and shape are updated in place,
+     * so references held by components (walls, boxes) stay valid. Other bodies are
+     * removed and missing ones are recreated with their original ids.
+     *
+     * @param snapshot - A snapshot previously returned by serialize()
+     */
+    public restore(snapshot: WorldSnapshot): void {
+        if (snapshot.version !== Engine.SNAPSHOT_VERSION) {
+            throw new Error(
+                `Unsupported snapshot version: ${snapshot.version}`,
+            );
+        }
+
+        // Index the bodies currently in the world by id
+        const existing = new Map<number, Matter.Body>();
+        for (const body of this.getAllBodies()) {
+            existing.set(body.id, body);
+        }
+
+        const restored: Matter.Body[] = [];
+        for (const bodySnapshot of snapshot.bodies) {
+            restored.push(this.restoreBody(bodySnapshot, existing));
+        }
+
+        // Remove bodies that are not part of the snapshot
+        for (const body of existing.values()) {
+            this.removeBody(body);
+        }
+
+        // Keep the original body order, which affects collision resolution
+        const order = new Map(restored.map((body, index) => [body, index]));
+        this.world.bodies.sort((a, b) =>
+            (order.get(a) ?? 0) - (order.get(b) ?? 0)
+        );
+        // Invalidate the cached body list
+        MatterInternals.setModified(this.world);
+
+        // Continue numbering new bodies where the snapshot did, so they get the
+        // same ids as when the snapshot was taken
+        this.nextBodyId = snapshot.nextBodyId ??
+            Math.max(0, ...restored.map((body) => body.id)) + 1;
+
+        // Restore the collision pairs with their contact impulses
+        PairSerializer.restoreAll(
+            this.engine,
+            snapshot.pairs,
+            this.getAllBodies(),
+        );
+
+        // Restore simulation time, random sequence and game progress
+        this.engine.timing.timestamp = snapshot.timestamp;
+        // Snapshots written before the speed could change run at normal speed
+        this.engine.timing.timeScale = snapshot.timeScale ?? 1;
+        // Snapshots written before ticks were counted start from 0
+        this.tick = snapshot.tick ?? 0;
+        this.random.setState(snapshot.randomState);
+        if (this.gameManager && snapshot.game) {
+            this.gameManager.restoreProgress(
+                snapshot.game.score,
+                snapshot.game.attempts,
+                snapshot.game.zoneScores,
+                snapshot.game.breakdown,
+            );
+        }
+        this.notifyTimingChange();
+
+        this.emit("restore", { snapshot: snapshot });
+    }
+
+    /**
+     * Restores a single body, in place when possible
+     *
+     * @param bodySnapshot - The body snapshot
+     * @param existing - Bodies in the world not restored yet, by id (updated)
+     * @returns The restored body
+     */
+    private restoreBody(
+        bodySnapshot: BodySnapshot,
+        existing: Map<number, Matter.Body>,
+    ): Matter.Body {
+        const current = existing.get(bodySnapshot.id);
+
+        if (current && BodySerializer.matches(current, bodySnapshot)) {
+            existing.delete(bodySnapshot.id);
+            BodySerializer.apply(current, bodySnapshot);
+            return current;
+        }
+
+        // Same id but a different shape: replace the body
+        if (current) {
+            existing.delete(bodySnapshot.id);
+            this.removeBody(current);
+        }
+
+        const body = BodySerializer.create(bodySnapshot);
+        this.insertBodies([body]);
+        return body;
+    }
+
     /**
      * Adjusts the renderer's viewport to focus on a specific area
      *
+     * Does nothing in headless mode.
+     *
      * @param bounds - The bounds to focus on, defined by min and max points
      */
     public lookAt(
@@ -122,7 +751,9 @@ export class Engine {
             max: { x: number; y: number };
         },
     ): void {
-        Matter.Render.lookAt(this.render, bounds);
+        if (this.render) {
+            Matter.Render.lookAt(this.render, bounds);
+        }
     }
 
     /**
@@ -146,28 +777,37 @@ export class Engine {
     /**
      * Gets the Matter.js renderer instance
      *
-     * @returns The Matter.js renderer instance
+     * @returns The Matter.js renderer instance, or null in headless mode
      */
-    public getRender(): Matter.Render {
+    public getRender(): Matter.Render | null {
         return this.render;
     }
 
     /**
      * Gets the Matter.js runner instance
      *
-     * @returns The Matter.js runner instance
+     * @returns The Matter.js runner instance, or null in headless or fixed time step mode
      */
-    public getRunner(): Matter.Runner {
+    public getRunner(): Matter.Runner | null {
         return this.runner;
     }
 
+    /**
+     * Gets the seeded random number generator of the simulation
+     *
+     * @returns The Random instance used for every random choice
+     */
+    public getRandom(): Random {
+        return this.random;
+    }
+
     /**
      * Gets the canvas element used by the renderer
      *
-     * @returns The HTML canvas element
+     * @returns The HTML canvas element, or null in headless mode
      */
-    public getCanvas(): HTMLCanvasElement {
-        return this.render.canvas;
+    public getCanvas(): HTMLCanvasElement | null {
+        return this.render ? this.render.canvas : null;
     }
 
     /**
@@ -188,6 +828,40 @@ export class Engine {
         return this.mouseConstraint;
     }
 
+    /**
+     * Lets a component drag bodies with the mouse
+     *
+     * The mouse constraint stays in the world until every component that enabled
+     * it disables it, so components can share it.
+     *
+     * @param user - The component (any object, used as a key)
+     */
+    public enableMouseConstraint(user: object): void {
+        if (!this.mouseConstraint) {
+            return;
+        }
+
+        if (this.mouseConstraintUsers.size === 0) {
+            Matter.Composite.add(this.world, this.mouseConstraint);
+        }
+        this.mouseConstraintUsers.add(user);
+    }
+
+    /**
+     * Stops a component from dragging bodies with the mouse
+     *
+     * @param user - The component that enabled the mouse constraint
+     */
+    public disableMouseConstraint(user: object): void {
+        if (!this.mouseConstraintUsers.delete(user)) {
+            return;
+        }
+
+        if (this.mouseConstraintUsers.size === 0) {
+            Matter.Composite.remove(this.world, this.mouseConstraint);
+        }
+    }
+
     /**
      * Gets a simplified object containing the main simulation components
      *
@@ -201,7 +875,7 @@ export class Engine {
             engine: this.engine,
             runner: this.runner,
             render: this.render,
-            canvas: this.render.canvas,
+            canvas: this.getCanvas(),
             stop: this.stop.bind(this),
         };
     }
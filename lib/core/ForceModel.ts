@@ -0,0 +1,248 @@
+/**
+ * ForceModel.ts
+ *
+ * This file contains the ForceModel class, which computes and applies the push a body
+ * receives when it is repelled: a force or an impulse, with a magnitude depending on
+ * the distance from the clicked point, the body's mass and a cap.
+ */
+
+import Matter from "matter-js";
+import { ForceModelOptions } from "../types";
+
+/**
+ * ForceModel Class
+ *
+ * The body is pushed away from the clicked point, toward its center. A push through
+ * the center cannot turn the body, so when applied at the clicked point it follows
+ * the inward normal of the nearest edge instead, like a poke on the surface. With
+ * the default options, the push is a force proportional to the distance from the
+ * point to the body's center, like the original click.
+ *
+ * @example
+ * const model = new ForceModel({ type: "impulse", falloff: "constant", strength: 15 });
+ * model.apply(body, clickedPoint);
+ */
+export class ForceModel {
+    // Default options, matching the original click
+    public static readonly DEFAULTS: Required<ForceModelOptions> = {
+        type: "force",
+        falloff: "linear",
+        strength: 0.015,
+        massNormalized: false,
+        maxMagnitude: Infinity,
+        applyAtPoint: false,
+    };
+
+    // Models offered by the force control, by name
+    public static readonly PRESETS: Record<
+        string,
+        { label: string; options: ForceModelOptions }
+    > = {
+        classic: { label: "Classic", options: {} },
+        spin: { label: "Spin", options: { applyAtPoint: true } },
+        kick: {
+            label: "Kick (same speed for every body)",
+            options: {
+                type: "impulse",
+                falloff: "constant",
+                strength: 15,
+                massNormalized: true,
+            },
+        },
+        quadratic: {
+            label: "Quadratic (capped)",
+            options: { falloff: "quadratic", strength: 0.001, maxMagnitude: 0.4 },
+        },
+    };
+
+    // Options, with the defaults filled in
+    private options: Required<ForceModelOptions>;
+
+    /**
+     * ForceModel constructor
+     *
+     * @param options - How bodies are pushed (default: the original click)
+     */
+    constructor(options: ForceModelOptions = {}) {
+        this.options = { ...ForceModel.DEFAULTS, ...options };
+    }
+
+    /**
+     * Gets the options of the model
+     *
+     * @returns The options, with the defaults filled in
+     */
+    public getOptions(): Required<ForceModelOptions> {
+        return { ...this.options };
+    }
+
+    /**
+     * Finds the preset the model was built from
+     *
+     * @returns The preset name, or null if the options match no preset
+     */
+    public getPresetName(): string | null {
+        const name = Object.keys(ForceModel.PRESETS).find((candidate) => {
+            const preset = new ForceModel(ForceModel.PRESETS[candidate].options);
+            return (Object.keys(this.options) as (keyof ForceModelOptions)[])
+                .every((key) => preset.options[key] === this.options[key]);
+        });
+        return name ?? null;
+    }
+
+    /**
+     * Computes the push a body receives when repelled from a point
+     *
+     * @param body - The body
+     * @param point - The clicked point, in world coordinates
+     * @param scale - Fraction of the push to apply, after the cap (default: all)
+     * @returns The force or impulse (depending on the type)
+     */
+    public compute(
+        body: Matter.Body,
+        point: Matter.Vector,
+        scale: number = 1,
+    ): Matter.Vector {
+        const direction = Matter.Vector.sub(body.position, point);
+        const distance = Matter.Vector.magnitude(direction);
+
+        let magnitude = this.options.strength;
+        if (this.options.falloff === "linear") {
+            magnitude *= distance;
+        } else if (this.options.falloff === "quadratic") {
+            magnitude *= distance * distance;
+        }
+        if (this.options.massNormalized) {
+            magnitude *= body.mass;
+        }
+        magnitude = Math.min(magnitude, this.options.maxMagnitude) * scale;
+
+        const unit = this.options.applyAtPoint
+            ? ForceModel.getSurfaceNormal(body, point)
+            : Matter.Vector.normalise(direction);
+        return Matter.Vector.mult(unit, magnitude);
+    }
+
+    /**
+     * Pushes a body away from a point
+     *
+     * @param body - The body
+     * @param point - The clicked point, in world coordinates
+     * @param scale - Fraction of the push to apply, after the cap (default: all)
+     * @returns The force or impulse applied
+     */
+    public apply(
+        body: Matter.Body,
+        point: Matter.Vector,
+        scale: number = 1,
+    ): Matter.Vector {
+        const push = this.compute(body, point, scale);
+        const origin = this.options.applyAtPoint ? point : body.position;
+
+        if (this.options.type === "impulse") {
+            ForceModel.applyImpulse(body, push, origin);
+        } else {
+            Matter.Body.applyForce(body, origin, push);
+        }
+
+        return push;
+    }
+
+    /**
+     * Finds the inward normal of the body's edge nearest to a point
+     *
+     * @param body - The body
+     * @param point - The point, in world coordinates
+     * @returns A unit vector pointing into the body
+     */
+    private static getSurfaceNormal(
+        body: Matter.Body,
+        point: Matter.Vector,
+    ): Matter.Vector {
+        // Compound bodies list themselves first, then their parts
+        const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+
+        let normal = Matter.Vector.normalise(
+            Matter.Vector.sub(body.position, point),
+        );
+        let nearest = Infinity;
+        for (const part of parts) {
+            const vertices = part.vertices;
+            vertices.forEach((start, index) => {
+                const end = vertices[(index + 1) % vertices.length];
+                const edge = Matter.Vector.sub(end, start);
+                const length = Matter.Vector.dot(edge, edge);
+                if (length === 0) {
+                    return;
+                }
+
+                // Distance from the point to the edge
+                const along = Math.max(
+                    0,
+                    Math.min(
+                        1,
+                        Matter.Vector.dot(Matter.Vector.sub(point, start), edge) /
+                            length,
+                    ),
+                );
+                const closest = Matter.Vector.add(
+                    start,
+                    Matter.Vector.mult(edge, along),
+                );
+                const distance = Matter.Vector.magnitude(
+                    Matter.Vector.sub(point, closest),
+                );
+                if (distance >= nearest) {
+                    return;
+                }
+                nearest = distance;
+
+                // Perpendicular to the edge, turned toward the part's center
+                const perpendicular = Matter.Vector.normalise(
+                    Matter.Vector.perp(edge),
+                );
+                const inward = Matter.Vector.dot(
+                    perpendicular,
+                    Matter.Vector.sub(part.position, closest),
+                ) >= 0;
+                normal = inward
+                    ? perpendicular
+                    : Matter.Vector.neg(perpendicular);
+            });
+        }
+
+        return normal;
+    }
+
+    /**
+     * Changes the velocity of a body by an impulse
+     *
+     * Applied away from the body's center, the impulse also makes it spin.
+     *
+     * @param body - The body
+     * @param impulse - Impulse (change in momentum)
+     * @param point - Where the impulse is applied (default: the body's center)
+     */
+    public static applyImpulse(
+        body: Matter.Body,
+        impulse: Matter.Vector,
+        point: Matter.Vector = body.position,
+    ): void {
+        Matter.Body.setVelocity(
+            body,
+            Matter.Vector.add(
+                Matter.Body.getVelocity(body),
+                Matter.Vector.div(impulse, body.mass),
+            ),
+        );
+
+        const offset = Matter.Vector.sub(point, body.position);
+        const torque = Matter.Vector.cross(offset, impulse);
+        if (torque !== 0) {
+            Matter.Body.setAngularVelocity(
+                body,
+                Matter.Body.getAngularVelocity(body) + torque / body.inertia,
+            );
+        }
+    }
+}
@@ -5,6 +5,16 @@
  * such as player score, attempts, and provides methods for game events.
  */
 
+import Matter from "matter-js";
+import { BoundaryBox } from "../components/BoundaryBox";
+import { ScoringRules } from "../scoring/ScoringRules";
+import {
+    GameMode,
+    GameOverReason,
+    GameState,
+    ScoreEntry,
+    WinCondition,
+} from "../types";
 import { Engine } from "./Engine";
 
 /**
@@ -12,26 +22,34 @@ import { Engine } from "./Engine";
  *
  * Centralizes game state and provides methods for tracking player actions,
  * score, and other game-related information.
+ *
+ * The game manager is a plain state store: it does not touch the DOM. Displays
+ * subscribe to it (see the `useGameState()` React hook) and read the current state
+ * with `getState()`. Each game creates its own instance and attaches it to its
+ * engine with `setEngine()`, so several games can run side by side.
+ *
+ * The game mode decides when the game ends: when the win condition is met (classic
+ * and time attack), also when the time runs out (countdown) or the attempts go over
+ * the budget (limited attempts), or never (zen). Timers follow the simulation time.
  */
 export class GameManager {
-    // Singleton instance
-    private static instance: GameManager;
-
     // Player's score (number of objects collected)
     private score: number = 0;
 
     // Number of attempts (forces applied)
     private attempts: number = 0;
 
-    // DOM elements for displaying game information
-    private scoreElement: HTMLElement;
-    private attemptsElement: HTMLElement;
+    // Number of shots undone and rewinds (kept when the world is restored)
+    private undos: number = 0;
+
+    // Points scored in each goal zone, by zone id
+    private zoneScores: Record<string, number> = {};
+
+    // Points earned from each source, by label
+    private breakdown: Record<string, number> = {};
 
-    // Game over modal elements
-    private gameOverModal: HTMLElement;
-    private finalScoreElement: HTMLElement;
-    private finalAttemptsElement: HTMLElement;
-    private restartButton: HTMLElement;
+    // Rules computing the points of captures and won games (flat points by default)
+    private scoringRules: ScoringRules = new ScoringRules();
 
     // Reference to the engine
     private engine: Engine | null = null;
@@ -42,35 +60,123 @@ export class GameManager {
     // Flag to track if the game is over
     private isGameOver: boolean = false;
 
+    // Why the game ended (null while it is being played)
+    private endReason: GameOverReason | null = null;
+
+    // When the game ends
+    private mode: GameMode = { type: "classic" };
+
+    // Whole seconds elapsed, updated as the simulation runs
+    private clock: number = 0;
+
+    // Simulation time when the game started, and time taken to win it
+    private startTime: number = 0;
+    private finishTime: number = 0;
+
+    // How the game is won (collecting every body by default)
+    private winCondition: WinCondition = { type: "collectAll" };
+
     // Callback for restarting the game
     private restartCallback: (() => void) | null = null;
 
+    // Current state, replaced (never mutated) on every change
+    private state: GameState = {
+        score: 0,
+        attempts: 0,
+        zoneScores: {},
+        breakdown: {},
+        isGameOver: false,
+        endReason: null,
+        time: 0,
+        clock: 0,
+        mode: { type: "classic" },
+        undos: 0,
+    };
+
+    // Listeners notified on every state change
+    private listeners: Set<() => void> = new Set();
+
     /**
-     * Private constructor to enforce singleton pattern
+     * Sets the engine reference
+     *
+     * @param engine - Reference to the physics engine
      */
-    private constructor() {
-        this.initializeUIElements();
+    public setEngine(engine: Engine): void {
+        this.detachEngine();
+        this.engine = engine;
+        // Let the engine include the game progress in its snapshots
+        // and give components (goal boxes, input) access to this game
+        engine.setGameManager(this);
+        // Run the timers with the simulation
+        Matter.Events.on(engine.getEngine(), "afterUpdate", this.onAfterUpdate);
     }
 
     /**
-     * Gets the singleton instance of GameManager
-     *
-     * @returns The GameManager instance
+     * Detaches the game from its engine and removes every listener and callback
+     */
+    public destroy(): void {
+        this.detachEngine();
+        this.restartCallback = null;
+        this.listeners.clear();
+    }
+
+    /**
+     * Stops following the current engine
      */
-    public static getInstance(): GameManager {
-        if (!GameManager.instance) {
-            GameManager.instance = new GameManager();
+    private detachEngine(): void {
+        if (this.engine) {
+            Matter.Events.off(
+                this.engine.getEngine(),
+                "afterUpdate",
+                this.onAfterUpdate,
+            );
+            this.engine.setGameManager(null);
         }
-        return GameManager.instance;
+        this.engine = null;
     }
 
     /**
-     * Sets the engine reference
+     * Updates the clock and ends a countdown game when its time is up
+     * (Matter.js event handler)
+     */
+    private onAfterUpdate = (): void => {
+        if (this.isGameOver) {
+            return;
+        }
+
+        const elapsed = this.getElapsedTime();
+        if (this.mode.type === "countdown" && elapsed >= this.mode.timeLimit) {
+            this.endGame("timeUp");
+            return;
+        }
+
+        // Only notify once per second, not on every update
+        const clock = Math.floor(elapsed / 1000);
+        if (clock !== this.clock) {
+            this.clock = clock;
+            this.notifyChange();
+        }
+    };
+
+    /**
+     * Sets when the game ends
      *
-     * @param engine - Reference to the physics engine
+     * Takes effect immediately; restart the game to start the new mode afresh.
+     *
+     * @param mode - The game mode
      */
-    public setEngine(engine: Engine): void {
-        this.engine = engine;
+    public setMode(mode: GameMode): void {
+        this.mode = mode;
+        this.notifyChange();
+    }
+
+    /**
+     * Gets the game mode
+     *
+     * @returns The game mode
+     */
+    public getMode(): GameMode {
+        return this.mode;
     }
 
     /**
@@ -93,93 +199,144 @@ export class GameManager {
     }
 
     /**
-     * Initializes UI elements by getting references to the DOM elements
-     */
-    private initializeUIElements(): void {
-        // Get references to game info elements
-        this.scoreElement = document.getElementById(
-            "score-display",
-        ) as HTMLElement;
-        this.attemptsElement = document.getElementById(
-            "attempts-display",
-        ) as HTMLElement;
-
-        // Get references to game over modal elements
-        this.gameOverModal = document.getElementById(
-            "game-over-modal",
-        ) as HTMLElement;
-        this.finalScoreElement = document.getElementById(
-            "final-score",
-        ) as HTMLElement;
-        this.finalAttemptsElement = document.getElementById(
-            "final-attempts",
-        ) as HTMLElement;
-        this.restartButton = document.getElementById(
-            "restart-button",
-        ) as HTMLElement;
-
-        // Add click event to restart button
-        this.restartButton.addEventListener("click", () => {
-            this.restartGame();
-        });
-
-        // Update displays with initial values
-        this.updateScoreDisplay();
-        this.updateAttemptsDisplay();
+     * Sets how the game is won, e.g. from a level definition
+     *
+     * @param winCondition - Collect every body, or reach a target score
+     */
+    public setWinCondition(winCondition: WinCondition): void {
+        this.winCondition = winCondition;
     }
 
     /**
-     * Updates the score display with the current score
+     * Sets the rules computing the points of captures and won games, e.g. from a
+     * level definition
+     *
+     * @param scoringRules - The scoring rules
      */
-    private updateScoreDisplay(): void {
-        this.scoreElement.textContent = `Score: ${this.score}`;
+    public setScoringRules(scoringRules: ScoringRules): void {
+        this.scoringRules = scoringRules;
+        this.scoringRules.reset();
     }
 
     /**
-     * Updates the attempts display with the current number of attempts
+     * Registers a listener called every time the game state changes
+     *
+     * @param listener - Function to call on change
+     * @returns A function that unsubscribes the listener
      */
-    private updateAttemptsDisplay(): void {
-        this.attemptsElement.textContent = `Attempts: ${this.attempts}`;
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.unsubscribe(listener);
     }
 
     /**
-     * Shows the game over modal with final stats
+     * Removes a listener previously registered with subscribe()
+     *
+     * @param listener - The listener to remove
      */
-    private showGameOverModal(): void {
-        // Update final stats
-        this.finalScoreElement.textContent = `Final Score: ${this.score}`;
-        this.finalAttemptsElement.textContent =
-            `Total Attempts: ${this.attempts} (${
-                Math.round(this.score / this.attempts * 100)
-            }%)`;
+    public unsubscribe(listener: () => void): void {
+        this.listeners.delete(listener);
+    }
 
-        // Show the modal
-        this.gameOverModal.style.opacity = "1";
-        this.gameOverModal.style.pointerEvents = "auto";
+    /**
+     * Gets the current game state
+     *
+     * The same object is returned until the state changes, so it can be
+     * compared by reference (e.g. by React's useSyncExternalStore).
+     *
+     * @returns The current score, attempts and game over flag
+     */
+    public getState(): GameState {
+        return this.state;
     }
 
     /**
-     * Hides the game over modal
+     * Replaces the state snapshot and notifies all listeners
      */
-    private hideGameOverModal(): void {
-        this.gameOverModal.style.opacity = "0";
-        this.gameOverModal.style.pointerEvents = "none";
+    private notifyChange(): void {
+        this.state = {
+            score: this.score,
+            attempts: this.attempts,
+            zoneScores: { ...this.zoneScores },
+            breakdown: { ...this.breakdown },
+            isGameOver: this.isGameOver,
+            endReason: this.endReason,
+            time: this.finishTime,
+            clock: this.clock,
+            mode: this.mode,
+            undos: this.undos,
+        };
+        this.listeners.forEach((listener) => listener());
     }
 
     /**
      * Increments the player's score
      *
      * @param points - Number of points to add (default: 1)
+     * @param zoneId - Id of the goal zone the points were scored in (optional)
      */
-    public addScore(points: number = 1): void {
-        this.score += points;
-        this.updateScoreDisplay();
-        console.log(`Score increased! Current score: ${this.score}`);
+    public addScore(points: number = 1, zoneId?: string): void {
+        this.addEntries(
+            [{ label: ScoringRules.BASE_LABEL, points: points }],
+            zoneId,
+        );
 
         // Check if all bodies have been collected
         this.checkGameOver();
     }
 
+    /**
+     * Scores a body captured by a goal zone, through the scoring rules
+     *
+     * Unlike addScore(), the game over check is left to the caller (see
+     * `checkGameOver()`), so the capture can be announced first.
+     *
+     * @param body - The captured body
+     * @param points - Points of the goal zone
+     * @param zoneId - Id of the goal zone
+     * @returns Points earned by the capture
+     */
+    public scoreCapture(
+        body: Matter.Body,
+        points: number,
+        zoneId: string,
+    ): number {
+        const entries = this.scoringRules.scoreCapture({
+            body: body,
+            points: points,
+            zoneId: zoneId,
+            time: this.getElapsedTime(),
+        });
+        return this.addEntries(entries, zoneId);
+    }
+
+    /**
+     * Adds points to the score and its breakdown
+     *
+     * @param entries - Points earned from each source
+     * @param zoneId - Id of the goal zone the points were scored in (optional)
+     * @returns Total points added
+     */
+    private addEntries(entries: ScoreEntry[], zoneId?: string): number {
+        let total = 0;
+        for (const entry of entries) {
+            this.breakdown[entry.label] = (this.breakdown[entry.label] ?? 0) +
+                entry.points;
+            total += entry.points;
+        }
+
+        this.score += total;
+        if (zoneId !== undefined) {
+            this.zoneScores[zoneId] = (this.zoneScores[zoneId] ?? 0) + total;
+        }
+        if (total !== 0) {
+            console.log(`Score changed! Current score: ${this.score}`);
+        }
+        this.notifyChange();
+
+        return total;
+    }
+
     /**
      * Increments the number of attempts
      *
@@ -187,44 +344,140 @@ export class GameManager {
      */
     public addAttempt(count: number = 1): void {
         this.attempts += count;
-        this.updateAttemptsDisplay();
         console.log(`Attempt made! Total attempts: ${this.attempts}`);
+        this.notifyChange();
+
+        this.engine?.emit("attempt", { attempts: this.attempts });
+
+        // An attempt over the budget ends a limited attempts game
+        if (
+            !this.isGameOver &&
+            this.mode.type === "limitedAttempts" &&
+            this.attempts > this.mode.maxAttempts
+        ) {
+            this.endGame("outOfAttempts");
+        }
+    }
+
+    /**
+     * Counts a shot undone or a rewind, e.g. for the undo penalty scoring rule
+     */
+    public addUndo(): void {
+        this.undos++;
+        this.notifyChange();
+    }
+
+    /**
+     * Gets the number of shots undone and rewinds
+     *
+     * @returns The number of undos
+     */
+    public getUndos(): number {
+        return this.undos;
+    }
+
+    /**
+     * Gets the number of attempts left in a limited attempts game
+     *
+     * @returns Attempts left, or null when attempts are not limited
+     */
+    public getAttemptsLeft(): number | null {
+        if (this.mode.type !== "limitedAttempts") {
+            return null;
+        }
+        return Math.max(0, this.mode.maxAttempts - this.attempts);
     }
 
     /**
-     * Checks if the game is over (all non-static bodies collected)
+     * Gets the time left in a countdown game
+     *
+     * @returns Time left in milliseconds, or null when time is not limited
+     */
+    public getTimeLeft(): number | null {
+        if (this.mode.type !== "countdown") {
+            return null;
+        }
+        return Math.max(0, this.mode.timeLimit - this.getElapsedTime());
+    }
+
+    /**
+     * Checks if the game is over (the win condition is met)
      */
     public checkGameOver(): void {
-        // If the game is already over or engine is not set, return
-        if (this.isGameOver || !this.engine) {
+        // If the game is already over, never ends or engine is not set, return
+        if (this.isGameOver || this.mode.type === "zen" || !this.engine) {
             return;
         }
 
-        // Get all non-static bodies in the simulation
-        const nonStaticBodies = this.engine.getAllBodies().filter((body) =>
-            !body.isStatic
-        );
+        let isWon: boolean;
+        if (this.winCondition.type === "score") {
+            // The target score has been reached
+            isWon = this.score >= this.winCondition.target;
+        } else {
+            // Get all non-static bodies in the simulation, including the ones
+            // made static while a goal zone captures them
+            const engine = this.engine;
+            const nonStaticBodies = engine.getAllBodies().filter((body) =>
+                !body.isStatic || BoundaryBox.isCaptured(engine, body)
+            );
+
+            // There are no non-static bodies left
+            isWon = nonStaticBodies.length === 0 && this.initialBodyCount > 0;
+        }
 
-        // If there are no non-static bodies left, the game is over
-        if (nonStaticBodies.length === 0 && this.initialBodyCount > 0) {
-            this.isGameOver = true;
-            console.log("Game over! All bodies collected.");
+        if (isWon) {
+            console.log("Game over! Win condition met.");
+            this.endGame("won");
+        }
+    }
 
-            // Show the game over modal
-            this.showGameOverModal();
+    /**
+     * Ends the game
+     *
+     * @param reason - Why the game ended
+     */
+    private endGame(reason: GameOverReason): void {
+        this.isGameOver = true;
+        this.endReason = reason;
+        this.finishTime = this.getElapsedTime();
+
+        if (reason === "won") {
+            // Bonuses and penalties of the whole game
+            this.addEntries(
+                this.scoringRules.scoreFinish({
+                    score: this.score,
+                    attempts: this.attempts,
+                    time: this.finishTime,
+                    undos: this.undos,
+                }),
+            );
+        } else {
+            console.log(`Game over! Reason: ${reason}`);
+            this.notifyChange();
         }
+
+        this.engine?.emit("gameOver", {
+            score: this.score,
+            attempts: this.attempts,
+            time: this.finishTime,
+            reason: reason,
+        });
     }
 
     /**
      * Restarts the game
+     *
+     * Resets the statistics and calls the restart callback, which rebuilds the scene.
      */
-    private restartGame(): void {
-        // Hide the game over modal
-        this.hideGameOverModal();
+    public restart(): void {
+        // Keep the statistics of the finished game for the restart event
+        const finished = { score: this.score, attempts: this.attempts };
 
         // Reset game state
         this.resetGame();
 
+        this.engine?.emit("restart", finished);
+
         // Call the restart callback if set
         if (this.restartCallback) {
             this.restartCallback();
@@ -249,12 +502,60 @@ export class GameManager {
         return this.attempts;
     }
 
+    /**
+     * Gets the points earned from each source (goals and scoring rules)
+     *
+     * @returns Points by label
+     */
+    public getBreakdown(): Record<string, number> {
+        return { ...this.breakdown };
+    }
+
+    /**
+     * Gets the simulation time elapsed since the game started
+     *
+     * Pausing or slowing down the physics also pauses or slows down this time.
+     *
+     * @returns Elapsed time in milliseconds
+     */
+    public getElapsedTime(): number {
+        // Restoring an earlier snapshot can move the clock before the start
+        return Math.max(0, this.getSimulationTime() - this.startTime);
+    }
+
+    /**
+     * Computes the share of attempts that scored
+     *
+     * @param score - Final score
+     * @param attempts - Number of attempts
+     * @returns Efficiency as a rounded percentage from 0 to 100 (100 without attempts)
+     */
+    public static getEfficiency(score: number, attempts: number): number {
+        // Shapes can fall in on their own: a game without attempts is a perfect one
+        if (attempts <= 0) {
+            return 100;
+        }
+        return Math.min(100, Math.round((score / attempts) * 100));
+    }
+
+    /**
+     * Gets the points scored in each goal zone
+     *
+     * @returns Points by zone id
+     */
+    public getZoneScores(): Record<string, number> {
+        return { ...this.zoneScores };
+    }
+
     /**
      * Resets the score to zero
      */
     public resetScore(): void {
         this.score = 0;
-        this.updateScoreDisplay();
+        this.zoneScores = {};
+        this.breakdown = {};
+        this.scoringRules.reset();
+        this.notifyChange();
     }
 
     /**
@@ -262,15 +563,61 @@ export class GameManager {
      */
     public resetAttempts(): void {
         this.attempts = 0;
-        this.updateAttemptsDisplay();
+        this.notifyChange();
+    }
+
+    /**
+     * Restores the score and attempts, e.g. from a world snapshot
+     *
+     * The state of the scoring rules is not part of the progress, so it is reset
+     * (a combo in progress ends when a shot is undone or the game is rewound).
+     *
+     * @param score - Score to restore
+     * @param attempts - Number of attempts to restore
+     * @param zoneScores - Points by zone id to restore (default: none)
+     * @param breakdown - Points by source to restore (default: none)
+     */
+    public restoreProgress(
+        score: number,
+        attempts: number,
+        zoneScores: Record<string, number> = {},
+        breakdown: Record<string, number> = {},
+    ): void {
+        this.score = score;
+        this.attempts = attempts;
+        this.zoneScores = { ...zoneScores };
+        this.breakdown = { ...breakdown };
+        this.scoringRules.reset();
+        this.isGameOver = false;
+        this.endReason = null;
+        this.finishTime = 0;
+        this.notifyChange();
     }
 
     /**
      * Resets all game statistics
      */
     public resetGame(): void {
-        this.resetScore();
-        this.resetAttempts();
+        this.score = 0;
+        this.zoneScores = {};
+        this.breakdown = {};
+        this.scoringRules.reset();
+        this.attempts = 0;
+        this.undos = 0;
         this.isGameOver = false;
+        this.endReason = null;
+        this.startTime = this.getSimulationTime();
+        this.finishTime = 0;
+        this.clock = 0;
+        this.notifyChange();
+    }
+
+    /**
+     * Gets the current simulation time of the engine
+     *
+     * @returns Time in milliseconds (0 without an engine)
+     */
+    private getSimulationTime(): number {
+        return this.engine?.getEngine().timing.timestamp ?? 0;
     }
 }
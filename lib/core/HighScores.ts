@@ -0,0 +1,215 @@
+/**
+ * HighScores.ts
+ *
+ * This file contains the HighScores class, which keeps the statistics of every level
+ * (best score, fewest attempts, best efficiency, best time and play count) and saves
+ * them in a key-value storage such as localStorage.
+ */
+
+import {
+    GameMode,
+    GameRecord,
+    KeyValueStorage,
+    LevelStats,
+    RecordType,
+} from "../types";
+import { GameManager } from "./GameManager";
+
+/**
+ * HighScores Class
+ *
+ * Records finished games by level id and tells which records they broke. Only the
+ * games of RECORDED_MODES are comparable, so only those should be recorded. Like
+ * GameManager, it is a plain state store: displays subscribe to it (see the
+ * `useHighScores()` React hook) and read the statistics with `getState()`.
+ *
+ * @example
+ * const highScores = new HighScores(new LocalStorage());
+ * engine.on("gameOver", (result) => highScores.recordGame("level-1", result));
+ */
+export class HighScores {
+    // Key the statistics are saved under
+    public static readonly STORAGE_KEY = "physics-game:stats";
+    // Version of the saved data, increased when its format changes
+    public static readonly VERSION = 1;
+    // Number of games kept in the history of each level
+    public static readonly HISTORY_LENGTH = 20;
+    // Game modes whose wins are recorded (the other modes add a time or attempt
+    // limit, or never end)
+    public static readonly RECORDED_MODES: readonly GameMode["type"][] = [
+        "classic",
+        "timeAttack",
+    ];
+
+    // Where the statistics are saved
+    private storage: KeyValueStorage;
+
+    // Statistics by level id, replaced (never mutated) on every change
+    private state: Record<string, LevelStats>;
+
+    // Listeners notified on every change
+    private listeners: Set<() => void> = new Set();
+
+    /**
+     * HighScores constructor
+     *
+     * @param storage - Where the statistics are loaded from and saved
+     */
+    constructor(storage: KeyValueStorage) {
+        this.storage = storage;
+        this.state = this.load();
+    }
+
+    /**
+     * Registers a listener called every time the statistics change
+     *
+     * @param listener - Function to call on change
+     * @returns A function that unsubscribes the listener
+     */
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Gets the statistics of every level played
+     *
+     * The same object is returned until the statistics change.
+     *
+     * @returns Statistics by level id
+     */
+    public getState(): Record<string, LevelStats> {
+        return this.state;
+    }
+
+    /**
+     * Gets the statistics of a level
+     *
+     * @param levelId - Id of the level
+     * @returns The statistics, or null if the level was never finished
+     */
+    public getLevelStats(levelId: string): LevelStats | null {
+        return this.state[levelId] ?? null;
+    }
+
+    /**
+     * Records a finished game and saves the statistics
+     *
+     * The first game of a level sets its records without breaking any.
+     *
+     * @param levelId - Id of the level
+     * @param result - Score, attempts and time (in milliseconds) of the game
+     * @returns The records broken by the game
+     */
+    public recordGame(
+        levelId: string,
+        result: { score: number; attempts: number; time: number },
+    ): RecordType[] {
+        const record: GameRecord = {
+            score: result.score,
+            attempts: result.attempts,
+            efficiency: GameManager.getEfficiency(result.score, result.attempts),
+            time: result.time,
+            date: Date.now(),
+        };
+        const previous = this.state[levelId];
+
+        const broken: RecordType[] = [];
+        if (previous) {
+            if (record.score > previous.bestScore) {
+                broken.push("score");
+            }
+            if (record.attempts < previous.fewestAttempts) {
+                broken.push("attempts");
+            }
+            if (record.efficiency > previous.bestEfficiency) {
+                broken.push("efficiency");
+            }
+            if (record.time < previous.bestTime) {
+                broken.push("time");
+            }
+        }
+
+        const stats: LevelStats = previous
+            ? {
+                playCount: previous.playCount + 1,
+                bestScore: Math.max(previous.bestScore, record.score),
+                fewestAttempts: Math.min(
+                    previous.fewestAttempts,
+                    record.attempts,
+                ),
+                bestEfficiency: Math.max(
+                    previous.bestEfficiency,
+                    record.efficiency,
+                ),
+                bestTime: Math.min(previous.bestTime, record.time),
+                history: [record, ...previous.history].slice(
+                    0,
+                    HighScores.HISTORY_LENGTH,
+                ),
+            }
+            : {
+                playCount: 1,
+                bestScore: record.score,
+                fewestAttempts: record.attempts,
+                bestEfficiency: record.efficiency,
+                bestTime: record.time,
+                history: [record],
+            };
+
+        this.update({ ...this.state, [levelId]: stats });
+        return broken;
+    }
+
+    /**
+     * Removes the statistics of one level, or of every level
+     *
+     * @param levelId - Id of the level (default: all levels)
+     */
+    public clear(levelId?: string): void {
+        if (levelId === undefined) {
+            this.update({});
+        } else {
+            const { [levelId]: _removed, ...rest } = this.state;
+            this.update(rest);
+        }
+    }
+
+    /**
+     * Replaces the statistics, saves them and notifies all listeners
+     *
+     * @param state - The new statistics
+     */
+    private update(state: Record<string, LevelStats>): void {
+        this.state = state;
+        this.storage.setItem(
+            HighScores.STORAGE_KEY,
+            JSON.stringify({ version: HighScores.VERSION, levels: state }),
+        );
+        this.listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * Reads the saved statistics
+     *
+     * @returns Statistics by level id (none if nothing valid was saved)
+     */
+    private load(): Record<string, LevelStats> {
+        const saved = this.storage.getItem(HighScores.STORAGE_KEY);
+        if (!saved) {
+            return {};
+        }
+
+        try {
+            const data = JSON.parse(saved);
+            if (data?.version !== HighScores.VERSION) {
+                console.warn(`Ignoring saved statistics version ${data?.version}`);
+                return {};
+            }
+            return data.levels ?? {};
+        } catch (error) {
+            console.warn("Ignoring unreadable saved statistics:", error);
+            return {};
+        }
+    }
+}
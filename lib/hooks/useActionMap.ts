@@ -0,0 +1,31 @@
+/**
+ * useActionMap.ts
+ *
+ * This file contains the useActionMap React hook, which subscribes a component to
+ * the input bindings and re-renders it whenever they change.
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { ActionMap } from "../core/ActionMap";
+import { Bindings } from "../types";
+
+/**
+ * Reads the bindings of every action and keeps them up to date
+ *
+ * @param actionMap - The bindings store
+ * @returns Bindings by action
+ */
+export function useActionMap(actionMap: ActionMap): Bindings {
+    const subscribe = useCallback(
+        (listener: () => void) => actionMap.subscribe(listener),
+        [actionMap],
+    );
+    const getState = useCallback(() => actionMap.getState(), [actionMap]);
+
+    // Saved bindings only exist in the browser: render the defaults on the server
+    return useSyncExternalStore(
+        subscribe,
+        getState,
+        () => ActionMap.DEFAULT_BINDINGS,
+    );
+}
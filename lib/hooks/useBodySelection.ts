@@ -0,0 +1,26 @@
+/**
+ * useBodySelection.ts
+ *
+ * This file contains the useBodySelection React hook, which subscribes a component
+ * to the selected bodies and re-renders it whenever they or their properties change.
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { BodySelection } from "../core/BodySelection";
+import { BodyProperties } from "../types";
+
+/**
+ * Reads the properties of the selected bodies and keeps them up to date
+ *
+ * @param selection - The selection to follow
+ * @returns The properties, in selection order
+ */
+export function useBodySelection(selection: BodySelection): BodyProperties[] {
+    const subscribe = useCallback(
+        (listener: () => void) => selection.subscribe(listener),
+        [selection],
+    );
+    const getState = useCallback(() => selection.getState(), [selection]);
+
+    return useSyncExternalStore(subscribe, getState, getState);
+}
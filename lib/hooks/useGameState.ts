@@ -0,0 +1,26 @@
+/**
+ * useGameState.ts
+ *
+ * This file contains the useGameState React hook, which subscribes a component
+ * to a GameManager and re-renders it whenever the game state changes.
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { GameManager } from "../core/GameManager";
+import { GameState } from "../types";
+
+/**
+ * Reads the state of a game and keeps it up to date
+ *
+ * @param gameManager - The game to follow
+ * @returns The current score, attempts and game over flag
+ */
+export function useGameState(gameManager: GameManager): GameState {
+    const subscribe = useCallback(
+        (listener: () => void) => gameManager.subscribe(listener),
+        [gameManager],
+    );
+    const getState = useCallback(() => gameManager.getState(), [gameManager]);
+
+    return useSyncExternalStore(subscribe, getState, getState);
+}
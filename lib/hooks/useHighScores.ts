@@ -0,0 +1,32 @@
+/**
+ * useHighScores.ts
+ *
+ * This file contains the useHighScores React hook, which subscribes a component
+ * to the saved level statistics and re-renders it whenever they change.
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { HighScores } from "../core/HighScores";
+import { LevelStats } from "../types";
+
+// Statistics rendered on the server, where nothing is saved
+const NO_STATS: Record<string, LevelStats> = {};
+
+/**
+ * Reads the statistics of every level and keeps them up to date
+ *
+ * @param highScores - The statistics store
+ * @returns Statistics by level id
+ */
+export function useHighScores(
+    highScores: HighScores,
+): Record<string, LevelStats> {
+    const subscribe = useCallback(
+        (listener: () => void) => highScores.subscribe(listener),
+        [highScores],
+    );
+    const getState = useCallback(() => highScores.getState(), [highScores]);
+
+    // Saved statistics only exist in the browser: render none on the server
+    return useSyncExternalStore(subscribe, getState, () => NO_STATS);
+}
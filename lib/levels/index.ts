@@ -0,0 +1,19 @@
+/**
+ * index.ts
+ *
+ * This file lists the levels of the game, in the order they are played.
+ * Each level is a JSON file following the LevelDefinition schema.
+ */
+
+import { LevelLoader } from "../components/LevelLoader";
+import { LevelDefinition } from "../types";
+import firstSteps from "./level-1.json";
+import overTheWall from "./level-2.json";
+import twoBoxes from "./level-3.json";
+
+// Every level, validated, in play order
+export const LEVELS: LevelDefinition[] = [
+    firstSteps,
+    overTheWall,
+    twoBoxes,
+].map((level) => LevelLoader.parse(level));
@@ -0,0 +1,41 @@
+/**
+ * AreaRule.ts
+ *
+ * This file contains the AreaRule class, a scoring rule giving more points for
+ * larger bodies.
+ */
+
+import { CaptureContext, ScoringRule } from "../types";
+
+/**
+ * AreaRule Class
+ *
+ * Scales the points of a capture by the area of the body: a body of the reference
+ * area scores the zone's points, one twice as large scores twice as many.
+ */
+export class AreaRule implements ScoringRule {
+    public readonly label = "Size";
+
+    // Area scoring exactly the zone's points (a 50x50 square by default)
+    private referenceArea: number;
+
+    /**
+     * AreaRule constructor
+     *
+     * @param referenceArea - Area scoring exactly the zone's points
+     */
+    constructor(referenceArea: number = 2500) {
+        this.referenceArea = referenceArea;
+    }
+
+    /**
+     * Computes the points added for the size of the captured body
+     *
+     * @param context - The capture
+     * @returns Points to add (negative for bodies smaller than the reference)
+     */
+    public scoreCapture(context: CaptureContext): number {
+        const scaled = context.points * (context.body.area / this.referenceArea);
+        return Math.round(scaled) - context.points;
+    }
+}
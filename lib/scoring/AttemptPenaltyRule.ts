@@ -0,0 +1,45 @@
+/**
+ * AttemptPenaltyRule.ts
+ *
+ * This file contains the AttemptPenaltyRule class, a scoring rule removing points
+ * for every attempt.
+ */
+
+import { FinishContext, ScoringRule } from "../types";
+
+/**
+ * AttemptPenaltyRule Class
+ *
+ * When the game is won, removes points for each attempt beyond the free ones.
+ * The final score never goes below zero.
+ */
+export class AttemptPenaltyRule implements ScoringRule {
+    public readonly label = "Attempts";
+
+    // Points removed per attempt
+    private points: number;
+    // Attempts made without penalty
+    private freeAttempts: number;
+
+    /**
+     * AttemptPenaltyRule constructor
+     *
+     * @param points - Points removed per attempt
+     * @param freeAttempts - Attempts made without penalty
+     */
+    constructor(points: number = 1, freeAttempts: number = 0) {
+        this.points = points;
+        this.freeAttempts = freeAttempts;
+    }
+
+    /**
+     * Computes the penalty of the attempts made
+     *
+     * @param context - The won game
+     * @returns Points to remove, as a negative number
+     */
+    public scoreFinish(context: FinishContext): number {
+        const penalized = Math.max(0, context.attempts - this.freeAttempts);
+        return -Math.min(context.score, penalized * this.points);
+    }
+}
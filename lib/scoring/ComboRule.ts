@@ -0,0 +1,63 @@
+/**
+ * ComboRule.ts
+ *
+ * This file contains the ComboRule class, a scoring rule rewarding several captures
+ * in quick succession.
+ */
+
+import { CaptureContext, ScoringRule } from "../types";
+
+/**
+ * ComboRule Class
+ *
+ * A capture following the previous one within the time window extends the combo.
+ * Each capture of a combo earns the bonus times the number of captures before it
+ * in the combo: +1, +2, +3... with the default bonus.
+ */
+export class ComboRule implements ScoringRule {
+    public readonly label = "Combo";
+
+    // Longest time in milliseconds between two captures of a combo
+    private window: number;
+    // Points per capture already in the combo
+    private bonus: number;
+
+    // Time of the last capture, and number of captures in the current combo
+    private lastCaptureTime: number | null = null;
+    private chain: number = 0;
+
+    /**
+     * ComboRule constructor
+     *
+     * @param window - Longest time in milliseconds between two captures of a combo
+     * @param bonus - Points per capture already in the combo
+     */
+    constructor(window: number = 2000, bonus: number = 1) {
+        this.window = window;
+        this.bonus = bonus;
+    }
+
+    /**
+     * Computes the combo bonus of a capture
+     *
+     * @param context - The capture
+     * @returns Points to add (0 when the capture starts a new combo)
+     */
+    public scoreCapture(context: CaptureContext): number {
+        const elapsed = this.lastCaptureTime === null
+            ? Infinity
+            : context.time - this.lastCaptureTime;
+        this.chain = elapsed >= 0 && elapsed <= this.window ? this.chain + 1 : 0;
+        this.lastCaptureTime = context.time;
+
+        return this.chain * this.bonus;
+    }
+
+    /**
+     * Ends the current combo
+     */
+    public reset(): void {
+        this.lastCaptureTime = null;
+        this.chain = 0;
+    }
+}
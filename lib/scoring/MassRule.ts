@@ -0,0 +1,41 @@
+/**
+ * MassRule.ts
+ *
+ * This file contains the MassRule class, a scoring rule giving more points for
+ * heavier bodies.
+ */
+
+import { CaptureContext, ScoringRule } from "../types";
+
+/**
+ * MassRule Class
+ *
+ * Scales the points of a capture by the mass of the body: a body of the reference
+ * mass scores the zone's points, one twice as heavy scores twice as many.
+ */
+export class MassRule implements ScoringRule {
+    public readonly label = "Mass";
+
+    // Mass scoring exactly the zone's points (a 50x50 square of default density)
+    private referenceMass: number;
+
+    /**
+     * MassRule constructor
+     *
+     * @param referenceMass - Mass scoring exactly the zone's points
+     */
+    constructor(referenceMass: number = 2.5) {
+        this.referenceMass = referenceMass;
+    }
+
+    /**
+     * Computes the points added for the mass of the captured body
+     *
+     * @param context - The capture
+     * @returns Points to add (negative for bodies lighter than the reference)
+     */
+    public scoreCapture(context: CaptureContext): number {
+        const scaled = context.points * (context.body.mass / this.referenceMass);
+        return Math.round(scaled) - context.points;
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * ScoringRules.ts
+ *
+ * This file contains the ScoringRules class, which computes the points of every
+ * capture and of a won game from a list of pluggable scoring rules.
+ */
+
+import {
+    CaptureContext,
+    FinishContext,
+    ScoreEntry,
+    ScoringRule,
+    ScoringRuleDefinition,
+} from "../types";
+import { AreaRule } from "./AreaRule";
+import { AttemptPenaltyRule } from "./AttemptPenaltyRule";
+import { ComboRule } from "./ComboRule";
+import { MassRule } from "./MassRule";
+import { ShapeRule } from "./ShapeRule";
+import { TimeBonusRule } from "./TimeBonusRule";
+import { UndoPenaltyRule } from "./UndoPenaltyRule";
+
+/**
+ * ScoringRules Class
+ *
+ * A capture is first worth the points of its goal zone, then each rule adds to (or
+ * removes from) it in order, so a multiplier listed after the size rule also
+ * multiplies the size bonus. When the game is won, the finish rules adjust the
+ * score. Every amount is returned as an entry labelled with its source, for the
+ * score breakdown. Without rules, every capture scores the zone's points.
+ *
+ * @example
+ * gameManager.setScoringRules(ScoringRules.create([
+ *     { type: "shape", multipliers: { circle: 2 } },
+ *     { type: "combo", window: 1500 },
+ * ]));
+ */
+export class ScoringRules {
+    // Label of the points given by the goal zones
+    public static readonly BASE_LABEL = "Goals";
+    // Types of the rules that can be written in level files
+    public static readonly RULE_TYPES: ScoringRuleDefinition["type"][] = [
+        "area",
+        "mass",
+        "shape",
+        "combo",
+        "attemptPenalty",
+        "timeBonus",
+        "undoPenalty",
+    ];
+
+    // Rules applied in order
+    private rules: ScoringRule[];
+
+    /**
+     * ScoringRules constructor
+     *
+     * @param rules - Rules applied in order (default: none)
+     */
+    constructor(rules: ScoringRule[] = []) {
+        this.rules = rules;
+    }
+
+    /**
+     * Builds the rules described in a level file
+     *
+     * @param definitions - Rule definitions
+     * @returns The scoring rules
+     */
+    public static create(definitions: ScoringRuleDefinition[]): ScoringRules {
+        return new ScoringRules(
+            definitions.map((definition) => ScoringRules.createRule(definition)),
+        );
+    }
+
+    /**
+     * Builds one rule from its definition
+     *
+     * @param definition - Rule definition
+     * @returns The rule
+     */
+    private static createRule(definition: ScoringRuleDefinition): ScoringRule {
+        switch (definition.type) {
+            case "area":
+                return new AreaRule(definition.referenceArea);
+            case "mass":
+                return new MassRule(definition.referenceMass);
+            case "shape":
+                return new ShapeRule(definition.multipliers);
+            case "combo":
+                return new ComboRule(definition.window, definition.bonus);
+            case "attemptPenalty":
+                return new AttemptPenaltyRule(
+                    definition.points,
+                    definition.freeAttempts,
+                );
+            case "timeBonus":
+                return new TimeBonusRule(definition.points, definition.parTime);
+            case "undoPenalty":
+                return new UndoPenaltyRule(definition.points);
+            default:
+                throw new Error(
+                    `Unknown scoring rule: ${
+                        (definition as { type: string }).type
+                    }`,
+                );
+        }
+    }
+
+    /**
+     * Computes the points of a capture
+     *
+     * @param context - The capture, with the zone's points
+     * @returns The zone's points, then the points added by each rule
+     */
+    public scoreCapture(context: CaptureContext): ScoreEntry[] {
+        const entries: ScoreEntry[] = [
+            { label: ScoringRules.BASE_LABEL, points: context.points },
+        ];
+
+        let points = context.points;
+        for (const rule of this.rules) {
+            if (!rule.scoreCapture) {
+                continue;
+            }
+            const added = rule.scoreCapture({ ...context, points: points });
+            entries.push({ label: rule.label, points: added });
+            points += added;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Computes the points added when the game is won
+     *
+     * @param context - The won game, with the score of its captures
+     * @returns The points added by each rule
+     */
+    public scoreFinish(context: FinishContext): ScoreEntry[] {
+        const entries: ScoreEntry[] = [];
+
+        let score = context.score;
+        for (const rule of this.rules) {
+            if (!rule.scoreFinish) {
+                continue;
+            }
+            const added = rule.scoreFinish({ ...context, score: score });
+            entries.push({ label: rule.label, points: added });
+            score += added;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Clears the state of the rules, when a game starts
+     */
+    public reset(): void {
+        this.rules.forEach((rule) => rule.reset?.());
+    }
+}
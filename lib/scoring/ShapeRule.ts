@@ -0,0 +1,46 @@
+/**
+ * ShapeRule.ts
+ *
+ * This file contains the ShapeRule class, a scoring rule making some shapes worth
+ * more than others.
+ */
+
+import { BoundaryBox } from "../components/BoundaryBox";
+import { CaptureContext, ScoringRule } from "../types";
+
+/**
+ * ShapeRule Class
+ *
+ * Multiplies the points of a capture depending on the shape of the body. Shapes
+ * without a multiplier keep their points.
+ */
+export class ShapeRule implements ScoringRule {
+    public readonly label = "Shape";
+
+    // Multiplier of each shape
+    private multipliers: Partial<
+        Record<"circle" | "polygon" | "rectangle", number>
+    >;
+
+    /**
+     * ShapeRule constructor
+     *
+     * @param multipliers - Multiplier of each shape (e.g. { circle: 2 })
+     */
+    constructor(
+        multipliers: Partial<Record<"circle" | "polygon" | "rectangle", number>>,
+    ) {
+        this.multipliers = multipliers;
+    }
+
+    /**
+     * Computes the points added for the shape of the captured body
+     *
+     * @param context - The capture
+     * @returns Points to add
+     */
+    public scoreCapture(context: CaptureContext): number {
+        const multiplier = this.multipliers[BoundaryBox.getShape(context.body)] ?? 1;
+        return Math.round(context.points * multiplier) - context.points;
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * TimeBonusRule.ts
+ *
+ * This file contains the TimeBonusRule class, a scoring rule rewarding fast games.
+ */
+
+import { FinishContext, ScoringRule } from "../types";
+
+/**
+ * TimeBonusRule Class
+ *
+ * When the game is won, adds a bonus decreasing linearly from its full value
+ * (winning instantly) to zero (winning at the par time or later).
+ */
+export class TimeBonusRule implements ScoringRule {
+    public readonly label = "Time bonus";
+
+    // Bonus for winning instantly
+    private points: number;
+    // Time in milliseconds after which there is no bonus
+    private parTime: number;
+
+    /**
+     * TimeBonusRule constructor
+     *
+     * @param points - Bonus for winning instantly
+     * @param parTime - Time in milliseconds after which there is no bonus
+     */
+    constructor(points: number, parTime: number) {
+        this.points = points;
+        this.parTime = parTime;
+    }
+
+    /**
+     * Computes the bonus for the time taken to win
+     *
+     * @param context - The won game
+     * @returns Points to add
+     */
+    public scoreFinish(context: FinishContext): number {
+        if (!(this.parTime > 0)) {
+            return 0;
+        }
+        const remaining = Math.max(0, 1 - context.time / this.parTime);
+        return Math.round(this.points * remaining);
+    }
+}
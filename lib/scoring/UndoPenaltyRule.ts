@@ -0,0 +1,40 @@
+/**
+ * UndoPenaltyRule.ts
+ *
+ * This file contains the UndoPenaltyRule class, a scoring rule removing points for
+ * every shot undone or rewind.
+ */
+
+import { FinishContext, ScoringRule } from "../types";
+
+/**
+ * UndoPenaltyRule Class
+ *
+ * When the game is won, removes points for each shot undone or rewind, so going
+ * back in time has a cost. The final score never goes below zero.
+ */
+export class UndoPenaltyRule implements ScoringRule {
+    public readonly label = "Undos";
+
+    // Points removed per undo
+    private points: number;
+
+    /**
+     * UndoPenaltyRule constructor
+     *
+     * @param points - Points removed per undo
+     */
+    constructor(points: number = 1) {
+        this.points = points;
+    }
+
+    /**
+     * Computes the penalty of the undos
+     *
+     * @param context - The won game
+     * @returns Points to remove, as a negative number
+     */
+    public scoreFinish(context: FinishContext): number {
+        return -Math.min(context.score, context.undos * this.points);
+    }
+}
@@ -1,22 +1,30 @@
 import * as Matter from "matter-js";
 
-// Extend the Window interface to include our custom property
-interface Window {
-    lastCreationTime?: number;
-}
-
 export interface SimulationOptions {
-    element: HTMLElement;
+    // DOM element to attach the renderer to (omit to run headless, physics only)
+    element?: HTMLElement;
     width: number;
     height: number;
     showAngleIndicator?: boolean;
     background?: string;
     wireframes?: boolean;
+    // Seed for every random choice in the simulation (random when omitted)
+    seed?: number;
+    // Fixed time step in milliseconds: every physics update advances by this step,
+    // making the simulation deterministic. Each frame runs as many updates as the
+    // real time elapsed since the previous frame allows (the remainder carries over
+    // to the next frame), at most Engine.MAX_STEPS_PER_FRAME (variable timing when
+    // omitted)
+    fixedTimeStep?: number;
 }
 
 export interface BodyOptions {
     restitution?: number;
     friction?: number;
+    // Static bodies never move (e.g. level obstacles)
+    isStatic?: boolean;
+    // Initial rotation in radians
+    angle?: number;
     render?: {
         fillStyle?: string;
         strokeStyle?: string;
@@ -26,8 +34,544 @@ export interface BodyOptions {
 
 export interface SimulationInstance {
     engine: Matter.Engine;
-    runner: Matter.Runner;
-    render: Matter.Render;
-    canvas: HTMLCanvasElement;
+    runner: Matter.Runner | null;
+    render: Matter.Render | null;
+    canvas: HTMLCanvasElement | null;
     stop: () => void;
 }
+
+// Anything holding listeners, bodies or DOM elements that must be released
+export interface Destroyable {
+    destroy: () => void;
+}
+
+export interface BodySnapshot {
+    id: number;
+    label: string;
+    // Vertices and axes (edge normals) in world space, as updated by the simulation
+    vertices: { x: number; y: number }[];
+    axes: { x: number; y: number }[];
+    circleRadius?: number;
+    position: { x: number; y: number };
+    positionPrev: { x: number; y: number };
+    angle: number;
+    anglePrev: number;
+    velocity: { x: number; y: number };
+    angularVelocity: number;
+    deltaTime: number;
+    // Accumulated position correction carried between updates by the resolver
+    positionImpulse: { x: number; y: number };
+    isStatic: boolean;
+    isSensor: boolean;
+    // Mass properties (null for static bodies, whose mass is infinite)
+    mass: {
+        area: number;
+        mass: number;
+        inertia: number;
+    } | null;
+    material: {
+        density: number;
+        friction: number;
+        frictionStatic: number;
+        frictionAir: number;
+        restitution: number;
+    };
+    collisionFilter: {
+        group: number;
+        category: number;
+        mask: number;
+    };
+    render: {
+        visible: boolean;
+        opacity?: number;
+        fillStyle?: string;
+        strokeStyle?: string;
+        lineWidth?: number;
+    };
+}
+
+export interface PairSnapshot {
+    // Ids of the two colliding bodies (or body parts)
+    bodyA: number;
+    bodyB: number;
+    // Contact points with the impulses used to warm start the resolver
+    contacts: {
+        vertex: { body: number; index: number } | null;
+        normalImpulse: number;
+        tangentImpulse: number;
+    }[];
+    contactCount: number;
+    separation: number;
+    isActive: boolean;
+    timeCreated: number;
+    timeUpdated: number;
+}
+
+// Game progress published by GameManager to its subscribers
+export interface GameState {
+    score: number;
+    attempts: number;
+    // Points scored in each goal zone, by zone id
+    zoneScores: Record<string, number>;
+    // Points earned from each source (goals and scoring rules), by label
+    breakdown: Record<string, number>;
+    // True once the game has ended (see endReason)
+    isGameOver: boolean;
+    // Why the game ended (null while it is being played)
+    endReason: GameOverReason | null;
+    // Simulation time in milliseconds the game lasted (0 until the game is over)
+    time: number;
+    // Whole seconds of simulation time since the game started, for timers
+    clock: number;
+    mode: GameMode;
+    // Number of shots undone and rewinds
+    undos: number;
+}
+
+export interface WorldSnapshot {
+    version: number;
+    // Simulation time (engine.timing.timestamp) when the snapshot was taken
+    timestamp: number;
+    // Speed of the simulation (engine.timing.timeScale, missing from snapshots
+    // written before the speed could change: restored as 1)
+    timeScale?: number;
+    // Number of physics updates performed when the snapshot was taken
+    // (missing from snapshots written before ticks were counted: restored as 0)
+    tick?: number;
+    // Id the engine gives to the next body added (missing from snapshots written
+    // before ids were counted per engine: one more than the highest body id)
+    nextBodyId?: number;
+    // State of the seeded random number generator
+    randomState: number;
+    bodies: BodySnapshot[];
+    // Active collision pairs, needed to continue the simulation exactly
+    pairs: PairSnapshot[];
+    // Game progress, present when a GameManager is attached to the engine
+    game?: {
+        score: number;
+        attempts: number;
+        zoneScores?: Record<string, number>;
+        breakdown?: Record<string, number>;
+    };
+}
+
+// An action performed on the simulation through user input
+export type InputAction =
+    // Strength scales the push (analog triggers), 1 when omitted
+    | { type: "repel"; x: number; y: number; strength?: number }
+    // Shape is random when omitted
+    | { type: "spawn"; x: number; y: number; shape?: SpawnShape }
+    // Removes every dynamic body at the point (all) or only the first one
+    | { type: "removeAt"; x: number; y: number; all: boolean }
+    // Removes the first dynamic body in the world
+    | { type: "removeFirst" }
+    // Changes the speed of the simulation
+    | { type: "setTimeScale"; timeScale: number }
+    // Launches a dynamic body, by id, with an impulse (slingshot)
+    | { type: "launch"; bodyId: number; impulseX: number; impulseY: number }
+    // Changes how repelling pushes bodies
+    | { type: "setForceModel"; model: ForceModelOptions };
+
+export interface RecordedAction {
+    // Simulation tick the action was performed on (before that tick's update)
+    tick: number;
+    action: InputAction;
+}
+
+export interface InputRecording {
+    version: number;
+    // Time step of a single physics update during the recording
+    timeStep: number;
+    // World at the start of the recording
+    snapshot: WorldSnapshot;
+    // Simulation tick the recording stopped at
+    endTick: number;
+    actions: RecordedAction[];
+    // Level the recording was made on (missing outside levels)
+    levelId?: string;
+}
+
+// Events emitted by the Engine, with the payload passed to their handlers
+export interface EngineEvents {
+    // A body was added to or removed from the world
+    bodyAdded: { body: Matter.Body };
+    bodyRemoved: { body: Matter.Body };
+    // The player is about to shoot a body (emitted before the shot changes the world)
+    shot: { body: Matter.Body };
+    // A force (or an impulse, depending on the force model) was applied to a body
+    // through user input
+    bodyRepelled: {
+        body: Matter.Body;
+        point: { x: number; y: number };
+        force: { x: number; y: number };
+    };
+    // The model of the repelling force changed
+    forceModelChange: { model: ForceModelOptions };
+    // An impulse was applied to a body with the slingshot
+    bodyLaunched: { body: Matter.Body; impulse: { x: number; y: number } };
+    // A body reached a goal and was collected
+    bodyScored: { body: Matter.Body; points: number; zoneId: string };
+    // The player made an attempt (e.g. repelled a body)
+    attempt: { attempts: number };
+    // The game ended (won, or lost depending on the game mode)
+    gameOver: {
+        score: number;
+        attempts: number;
+        time: number;
+        reason: GameOverReason;
+    };
+    // The game was restarted (with the statistics of the finished game)
+    restart: { score: number; attempts: number };
+    // The physics was paused or resumed, or its speed changed
+    timingChange: { paused: boolean; timeScale: number };
+    // The world was rebuilt from a snapshot
+    restore: { snapshot: WorldSnapshot };
+    // Input recording started or stopped
+    recordingChange: { recording: boolean };
+    // A body was moved or changed directly (dragged, rotated, edited in the
+    // inspector) instead of through the recorded input actions
+    bodyEdited: { body: Matter.Body };
+}
+
+// A body placed in a level, created through BodyFactory
+export type LevelBodyDefinition =
+    | { shape: "circle"; x: number; y: number; radius: number; options?: BodyOptions }
+    | {
+        shape: "polygon";
+        x: number;
+        y: number;
+        sides: number;
+        radius: number;
+        options?: BodyOptions;
+    }
+    | {
+        shape: "rectangle";
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        options?: BodyOptions;
+    };
+
+// Which boundary walls to build (all by default) and how thick they are
+export interface WallOptions {
+    top?: boolean;
+    bottom?: boolean;
+    left?: boolean;
+    right?: boolean;
+    thickness?: number;
+}
+
+// A side of a goal box
+export type GoalSide = "top" | "bottom" | "left" | "right";
+
+// Path followed by a moving goal box, driven by simulation time
+export interface GoalPath {
+    // linear: moves through the keyframes and back to the first one, in a loop
+    // pingPong: moves through the keyframes, then back through them in reverse
+    // circular: orbits around the box's position
+    type: "linear" | "pingPong" | "circular";
+    // Offsets from the box's position to move through (linear and pingPong)
+    keyframes?: { x: number; y: number }[];
+    // Radius of the orbit (circular)
+    radius?: number;
+    // Orbit direction on screen (circular, default: counterclockwise)
+    clockwise?: boolean;
+    // Time in milliseconds of a whole cycle
+    duration: number;
+    // Easing between two keyframes, or over the whole orbit (default: linear)
+    easing?: "linear" | "easeIn" | "easeOut" | "easeInOut";
+}
+
+// A goal zone: a box with one open side. Missing values use the defaults
+// (a 180x140 box open at the top in the bottom-right corner, worth 1 point)
+export interface GoalOptions {
+    // Id reported with every score made in the zone
+    // (default: "goal-" followed by the zone's position in the level, from 1)
+    id?: string;
+    // Center of the box
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    // Rotation of the box in radians
+    angle?: number;
+    // Side left without a wall, before rotation
+    openSide?: GoalSide;
+    // Points scored for every body collected
+    points?: number;
+    // Colour of the walls
+    color?: string;
+    // Time in milliseconds a body must rest inside before it is captured (default: 0,
+    // captured as soon as it enters)
+    restTime?: number;
+    // Length in milliseconds of the capture animation before the body is scored (default: 250)
+    captureDuration?: number;
+    // Path to move along (the box stays in place when omitted)
+    path?: GoalPath;
+    // Only bodies matching every given filter are collected
+    accepts?: {
+        shapes?: ("circle" | "polygon" | "rectangle")[];
+        // Fill colours, e.g. "#F44336"
+        colors?: string[];
+    };
+}
+
+// Rules deciding when a game ends
+export type GameMode =
+    // Ends when the win condition is met
+    | { type: "classic" }
+    // Ends when the win condition is met or the time runs out
+    | { type: "countdown"; timeLimit: number }
+    // Ends when the win condition is met, racing against the clock
+    | { type: "timeAttack" }
+    // Ends when the win condition is met or an attempt goes over the budget
+    | { type: "limitedAttempts"; maxAttempts: number }
+    // Never ends
+    | { type: "zen" };
+
+// Why a game ended
+export type GameOverReason = "won" | "timeUp" | "outOfAttempts";
+
+// How a game is won
+export type WinCondition =
+    // Every dynamic body has been collected
+    | { type: "collectAll" }
+    // The score reached a target
+    | { type: "score"; target: number };
+
+export interface LevelDefinition {
+    version: number;
+    id: string;
+    name: string;
+    description?: string;
+    // Size of the arena the level was designed for
+    width: number;
+    height: number;
+    walls?: WallOptions;
+    // Dynamic bodies to collect
+    bodies: LevelBodyDefinition[];
+    // Static bodies in the way
+    obstacles?: LevelBodyDefinition[];
+    goals: GoalOptions[];
+    // Number of attempts a good player needs
+    parAttempts?: number;
+    // Collect every body when omitted
+    winCondition?: WinCondition;
+    // Rules adding to the points of the goals (a flat score when omitted)
+    scoring?: ScoringRuleDefinition[];
+    // How clicks push the bodies (the default force model when omitted)
+    forceModel?: ForceModelOptions;
+}
+
+// Points earned from one source, e.g. a scoring rule
+export interface ScoreEntry {
+    label: string;
+    points: number;
+}
+
+// A body captured by a goal zone, passed to the scoring rules
+export interface CaptureContext {
+    body: Matter.Body;
+    // Points of the capture so far (the zone's points, then adjusted by earlier rules)
+    points: number;
+    zoneId: string;
+    // Simulation time in milliseconds since the game started
+    time: number;
+}
+
+// A won game, passed to the scoring rules
+export interface FinishContext {
+    score: number;
+    attempts: number;
+    // Simulation time in milliseconds taken to win
+    time: number;
+    // Number of shots undone and rewinds
+    undos: number;
+}
+
+// A rule adding or removing points, when a body is captured or the game is won
+export interface ScoringRule {
+    // Shown in the score breakdown
+    label: string;
+    // Points to add to a capture (negative to remove)
+    scoreCapture?(context: CaptureContext): number;
+    // Points to add when the game is won (negative to remove)
+    scoreFinish?(context: FinishContext): number;
+    // Clears any state kept between captures, when a game starts
+    reset?(): void;
+}
+
+// Scoring rule as written in level files
+export type ScoringRuleDefinition =
+    // Points scaled by the area of the body (referenceArea scores the zone's points)
+    | { type: "area"; referenceArea?: number }
+    // Points scaled by the mass of the body (referenceMass scores the zone's points)
+    | { type: "mass"; referenceMass?: number }
+    // Points multiplied depending on the shape of the body
+    | {
+        type: "shape";
+        multipliers: Partial<Record<"circle" | "polygon" | "rectangle", number>>;
+    }
+    // Bonus for each capture following another one within a time window (milliseconds)
+    | { type: "combo"; window?: number; bonus?: number }
+    // Points removed for each attempt beyond the free ones
+    | { type: "attemptPenalty"; points?: number; freeAttempts?: number }
+    // Bonus decreasing linearly to zero at parTime (milliseconds)
+    | { type: "timeBonus"; points: number; parTime: number }
+    // Points removed for each shot undone or rewind
+    | { type: "undoPenalty"; points?: number };
+
+// How repelling a body pushes it
+export interface ForceModelOptions {
+    // "force" acts during one physics update, "impulse" changes the velocity at once
+    // (default: "force")
+    type?: "force" | "impulse";
+    // How the magnitude depends on the distance from the clicked point to the
+    // body's center: proportional to it, to its square, or not at all
+    // (default: "linear")
+    falloff?: "linear" | "quadratic" | "constant";
+    // Magnitude per pixel, per squared pixel or in total, depending on the falloff
+    // (default: 0.015)
+    strength?: number;
+    // Multiplies the magnitude by the body's mass, so every body is pushed to the
+    // same speed (default: false)
+    massNormalized?: boolean;
+    // Largest magnitude, after the mass (default: no limit)
+    maxMagnitude?: number;
+    // Pushes at the clicked point, along the normal of the nearest edge, instead of
+    // the body's center, so bodies clicked off-center spin (default: false)
+    applyAtPoint?: boolean;
+}
+
+// Game actions that can be bound to inputs (see ActionMap)
+export type ControlAction =
+    // Pointer actions, performed where the pointer is pressed
+    | "repel"
+    | "spawn"
+    | "deleteAll"
+    | "pan"
+    // Actions performed at once, whatever the pointer position
+    | "delete"
+    | "pause"
+    | "step"
+    | "slower"
+    | "faster"
+    | "resetSpeed"
+    | "follow"
+    | "fitAll"
+    | "resetCamera"
+    | "undo"
+    | "rewind"
+    | "cancelAim"
+    | "restart";
+
+// An input an action can be bound to
+export type InputBinding =
+    // KeyboardEvent.key, lowercase for letters
+    | { device: "keyboard"; key: string; ctrl?: boolean }
+    // 0 (left), 1 (middle) or 2 (right); touches and pens count as the left button
+    | { device: "mouse"; button: number; ctrl?: boolean }
+    // Button index in the standard gamepad mapping
+    | { device: "gamepad"; button: number };
+
+// Inputs bound to every action
+export type Bindings = Record<ControlAction, InputBinding[]>;
+
+// An input bound to several actions
+export interface BindingConflict {
+    binding: InputBinding;
+    actions: ControlAction[];
+}
+
+// How a left click shoots: repel the clicked body, or drag it back like a slingshot
+export type ShootingMode = "click" | "slingshot";
+
+// What the primary button (left click, tap) does on the canvas
+export type ToolName = "select" | "move" | "rotate" | "spawn" | "eraser" | "repel";
+
+// Shape of the bodies created by the spawn tool ("random" picks one for each body)
+export type SpawnShape = "random" | "circle" | "polygon" | "rectangle";
+
+// Properties of a selected body, shown and edited in the inspector
+export interface BodyProperties {
+    id: number;
+    label: string;
+    position: { x: number; y: number };
+    // Angle in radians
+    angle: number;
+    velocity: { x: number; y: number };
+    // Infinite for static bodies
+    mass: number;
+    density: number;
+    friction: number;
+    restitution: number;
+    isStatic: boolean;
+    fillStyle: string;
+    strokeStyle: string;
+}
+
+// Changes to the properties of a body (the id and label cannot change)
+export type BodyPropertyChanges = Partial<Omit<BodyProperties, "id" | "label">>;
+
+// Edge or center the selected bodies are lined up on
+export type AlignMode =
+    | "left"
+    | "centerX"
+    | "right"
+    | "top"
+    | "centerY"
+    | "bottom";
+
+// Options of the slingshot
+export interface SlingshotOptions {
+    // Longest drag in pixels, giving the full power (default: 150)
+    maxDrag?: number;
+    // Impulse per pixel dragged (default: 0.3)
+    power?: number;
+    // Physics updates simulated ahead for the trajectory preview (default: 90)
+    previewSteps?: number;
+    // Updates between two dots of the trajectory preview (default: 3)
+    previewInterval?: number;
+}
+
+// Options of the rewind history
+export interface RewindOptions {
+    // Number of snapshots kept (default: 300)
+    capacity?: number;
+    // Simulation time in milliseconds between two snapshots (default: 50)
+    interval?: number;
+}
+
+// Key-value store with the API of window.localStorage
+export interface KeyValueStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+// Result of one finished game
+export interface GameRecord {
+    score: number;
+    attempts: number;
+    // Percentage of attempts that scored
+    efficiency: number;
+    // Simulation time in milliseconds taken to win
+    time: number;
+    // When the game was finished (milliseconds since the epoch)
+    date: number;
+}
+
+// Records that can be broken by a game
+export type RecordType = "score" | "attempts" | "efficiency" | "time";
+
+// Statistics kept for each level
+export interface LevelStats {
+    playCount: number;
+    bestScore: number;
+    fewestAttempts: number;
+    bestEfficiency: number;
+    bestTime: number;
+    // Most recent games first
+    history: GameRecord[];
+}
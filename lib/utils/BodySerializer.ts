@@ -0,0 +1,231 @@
+/**
+ * BodySerializer.ts
+ *
+ * This file contains the BodySerializer class, which converts Matter.js bodies to plain
+ * JSON-compatible snapshots and back. It is used by the Engine to save and restore
+ * the whole world.
+ */
+
+import Matter from "matter-js";
+import { BodySnapshot } from "../types";
+
+// Internal body properties that Matter.js uses but does not declare in its types
+// (or declares as read-only)
+type BodyInternals =
+    & Omit<Matter.Body, "speed" | "angularVelocity" | "angularSpeed">
+    & {
+        speed: number;
+        angularVelocity: number;
+        angularSpeed: number;
+        positionPrev: Matter.Vector;
+        positionImpulse: Matter.Vector;
+        anglePrev: number;
+        deltaTime: number;
+        _original?: { density: number } | null;
+    };
+
+/**
+ * BodySerializer Class
+ *
+ * Converts single bodies to and from BodySnapshot objects. The snapshot contains
+ * everything needed to rebuild the body exactly: shape (the world-space vertices and
+ * axes, copied verbatim to avoid rounding differences), kinematic state (including
+ * the previous position and angle used by the Verlet integrator), mass, material,
+ * collision filter and render styles. Compound bodies are saved by their hull only.
+ */
+export class BodySerializer {
+    /**
+     * Writes a body to a snapshot
+     *
+     * @param body - The body to serialize
+     * @returns The body snapshot
+     */
+    public static serialize(body: Matter.Body): BodySnapshot {
+        const internals = body as BodyInternals;
+
+        // Static bodies have an infinite density, keep the original one instead
+        const density = body.isStatic
+            ? internals._original?.density ?? 0.001
+            : body.density;
+
+        return {
+            id: body.id,
+            label: body.label,
+            vertices: body.vertices.map((vertex) => ({
+                x: vertex.x,
+                y: vertex.y,
+            })),
+            axes: body.axes.map((axis) => ({ x: axis.x, y: axis.y })),
+            circleRadius: body.circleRadius || undefined,
+            position: { x: body.position.x, y: body.position.y },
+            positionPrev: {
+                x: internals.positionPrev.x,
+                y: internals.positionPrev.y,
+            },
+            angle: body.angle,
+            anglePrev: internals.anglePrev,
+            velocity: { x: body.velocity.x, y: body.velocity.y },
+            angularVelocity: body.angularVelocity,
+            deltaTime: internals.deltaTime,
+            positionImpulse: {
+                x: internals.positionImpulse.x,
+                y: internals.positionImpulse.y,
+            },
+            isStatic: body.isStatic,
+            isSensor: body.isSensor,
+            mass: body.isStatic ? null : {
+                area: body.area,
+                mass: body.mass,
+                inertia: body.inertia,
+            },
+            material: {
+                density: density,
+                friction: body.friction,
+                frictionStatic: body.frictionStatic,
+                frictionAir: body.frictionAir,
+                restitution: body.restitution,
+            },
+            collisionFilter: {
+                group: body.collisionFilter.group ?? 0,
+                category: body.collisionFilter.category ?? 1,
+                mask: body.collisionFilter.mask ?? 0xFFFFFFFF,
+            },
+            render: {
+                visible: body.render.visible ?? true,
+                opacity: body.render.opacity ?? 1,
+                fillStyle: body.render.fillStyle,
+                strokeStyle: body.render.strokeStyle,
+                lineWidth: body.render.lineWidth,
+            },
+        };
+    }
+
+    /**
+     * Creates a new body from a snapshot
+     *
+     * The body keeps the id stored in the snapshot.
+     *
+     * @param snapshot - The body snapshot
+     * @returns A new Matter.js body
+     */
+    public static create(snapshot: BodySnapshot): Matter.Body {
+        const body = Matter.Body.create({
+            id: snapshot.id,
+            label: snapshot.label,
+            vertices: snapshot.vertices.map((vertex) => ({ ...vertex })),
+            position: { ...snapshot.position },
+            density: snapshot.material.density,
+            render: BodySerializer.renderStyles(snapshot),
+        });
+
+        // Circles keep their radius so they are still rendered as circles
+        if (snapshot.circleRadius) {
+            body.circleRadius = snapshot.circleRadius;
+        }
+
+        // Apply the rest of the state (angle, velocity, material, ...)
+        BodySerializer.apply(body, snapshot);
+
+        return body;
+    }
+
+    /**
+     * Checks if an existing body can be updated in place from a snapshot
+     *
+     * @param body - The existing body
+     * @param snapshot - The body snapshot
+     * @returns True if the body has the same id and the same shape
+     */
+    public static matches(body: Matter.Body, snapshot: BodySnapshot): boolean {
+        return (
+            body.id === snapshot.id &&
+            body.label === snapshot.label &&
+            body.parts.length === 1 &&
+            body.vertices.length === snapshot.vertices.length
+        );
+    }
+
+    /**
+     * Applies a snapshot to an existing body of the same shape
+     *
+     * @param body - The body to update
+     * @param snapshot - The body snapshot
+     */
+    public static apply(body: Matter.Body, snapshot: BodySnapshot): void {
+        const internals = body as BodyInternals;
+
+        // Static flag first, as it overwrites mass and material properties
+        if (body.isStatic !== snapshot.isStatic) {
+            Matter.Body.setStatic(body, snapshot.isStatic);
+        }
+        if (snapshot.mass) {
+            body.density = snapshot.material.density;
+            body.area = snapshot.mass.area;
+            body.mass = snapshot.mass.mass;
+            body.inverseMass = 1 / snapshot.mass.mass;
+            body.inertia = snapshot.mass.inertia;
+            body.inverseInertia = 1 / snapshot.mass.inertia;
+        }
+
+        // Pose, with the exact vertices and axes
+        body.angle = snapshot.angle;
+        body.position.x = snapshot.position.x;
+        body.position.y = snapshot.position.y;
+        snapshot.vertices.forEach((vertex, index) => {
+            body.vertices[index].x = vertex.x;
+            body.vertices[index].y = vertex.y;
+        });
+        body.axes = snapshot.axes.map((axis) => ({ ...axis }));
+        Matter.Bounds.update(body.bounds, body.vertices, snapshot.velocity);
+
+        // Kinematic state, restored exactly for the Verlet integrator
+        internals.deltaTime = snapshot.deltaTime;
+        internals.positionPrev.x = snapshot.positionPrev.x;
+        internals.positionPrev.y = snapshot.positionPrev.y;
+        internals.anglePrev = snapshot.anglePrev;
+        body.velocity.x = snapshot.velocity.x;
+        body.velocity.y = snapshot.velocity.y;
+        internals.speed = Matter.Vector.magnitude(body.velocity);
+        internals.angularVelocity = snapshot.angularVelocity;
+        internals.angularSpeed = Math.abs(snapshot.angularVelocity);
+        internals.positionImpulse.x = snapshot.positionImpulse.x;
+        internals.positionImpulse.y = snapshot.positionImpulse.y;
+        body.force.x = 0;
+        body.force.y = 0;
+        body.torque = 0;
+
+        // Material
+        body.isSensor = snapshot.isSensor;
+        body.friction = snapshot.material.friction;
+        body.frictionStatic = snapshot.material.frictionStatic;
+        body.frictionAir = snapshot.material.frictionAir;
+        body.restitution = snapshot.material.restitution;
+
+        // Collision filter
+        body.collisionFilter.group = snapshot.collisionFilter.group;
+        body.collisionFilter.category = snapshot.collisionFilter.category;
+        body.collisionFilter.mask = snapshot.collisionFilter.mask;
+
+        // Render styles
+        Object.assign(body.render, BodySerializer.renderStyles(snapshot));
+    }
+
+    /**
+     * Gets the render styles of a snapshot, leaving out unset ones
+     * so that they do not overwrite the Matter.js defaults
+     *
+     * @param snapshot - The body snapshot
+     * @returns The render styles that are set
+     */
+    private static renderStyles(
+        snapshot: BodySnapshot,
+    ): Matter.IBodyRenderOptions {
+        const styles: Matter.IBodyRenderOptions = {};
+        for (const [key, value] of Object.entries(snapshot.render)) {
+            if (value !== undefined) {
+                Object.assign(styles, { [key]: value });
+            }
+        }
+        return styles;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * EventBus.ts
+ *
+ * This file contains the EventBus class, a small strongly typed publish/subscribe
+ * helper. The names of the events and the payload of each one are described by a
+ * single map type, so handlers always receive the right payload.
+ */
+
+/**
+ * Handler for an event of an event map
+ */
+export type EventHandler<Payload> = (payload: Payload) => void;
+
+/**
+ * EventBus Class
+ *
+ * Keeps the handlers registered for each event and calls them in registration
+ * order when the event is emitted.
+ *
+ * @example
+ * const bus = new EventBus<{ scored: { points: number } }>();
+ * bus.on("scored", ({ points }) => console.log(points));
+ * bus.emit("scored", { points: 1 });
+ */
+export class EventBus<Events extends object> {
+    // Handlers registered for each event
+    private handlers: {
+        [Name in keyof Events]?: EventHandler<Events[Name]>[];
+    } = {};
+
+    /**
+     * Registers a handler called every time an event is emitted
+     *
+     * @param event - Name of the event
+     * @param handler - Function to call with the event payload
+     */
+    public on<Name extends keyof Events>(
+        event: Name,
+        handler: EventHandler<Events[Name]>,
+    ): void {
+        const handlers = this.handlers[event] ?? [];
+        handlers.push(handler);
+        this.handlers[event] = handlers;
+    }
+
+    /**
+     * Removes a handler previously registered with on() or once()
+     *
+     * @param event - Name of the event
+     * @param handler - The handler to remove
+     */
+    public off<Name extends keyof Events>(
+        event: Name,
+        handler: EventHandler<Events[Name]>,
+    ): void {
+        const handlers = this.handlers[event];
+        if (!handlers) {
+            return;
+        }
+
+        const index = handlers.indexOf(handler);
+        if (index !== -1) {
+            handlers.splice(index, 1);
+        }
+    }
+
+    /**
+     * Registers a handler called only the next time an event is emitted
+     *
+     * @param event - Name of the event
+     * @param handler - Function to call with the event payload
+     * @returns The registered wrapper, which can be passed to off() to cancel it
+     */
+    public once<Name extends keyof Events>(
+        event: Name,
+        handler: EventHandler<Events[Name]>,
+    ): EventHandler<Events[Name]> {
+        const wrapper: EventHandler<Events[Name]> = (payload) => {
+            this.off(event, wrapper);
+            handler(payload);
+        };
+        this.on(event, wrapper);
+        return wrapper;
+    }
+
+    /**
+     * Calls every handler registered for an event
+     *
+     * @param event - Name of the event
+     * @param payload - Data passed to the handlers
+     */
+    public emit<Name extends keyof Events>(
+        event: Name,
+        payload: Events[Name],
+    ): void {
+        // Copy the list so handlers can unsubscribe while being called
+        const handlers = this.handlers[event]?.slice() ?? [];
+        handlers.forEach((handler) => handler(payload));
+    }
+
+    /**
+     * Removes every handler, for one event or for all events
+     *
+     * @param event - Name of the event (default: all events)
+     */
+    public clear(event?: keyof Events): void {
+        if (event === undefined) {
+            this.handlers = {};
+        } else {
+            delete this.handlers[event];
+        }
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * FileTransfer.ts
+ *
+ * This file contains the FileTransfer class, which saves data as files downloaded
+ * by the browser and reads files chosen by the user. It is used to share recordings
+ * and snapshots.
+ */
+
+/**
+ * FileTransfer Class
+ *
+ * Small helpers for downloading and reading JSON files in the browser.
+ */
+export class FileTransfer {
+    // Time the download link stays valid after it is clicked, in milliseconds
+    // (some browsers start reading the file after click() returns)
+    public static readonly REVOKE_DELAY = 1000;
+
+    /**
+     * Downloads data as a JSON file
+     *
+     * @param filename - Name of the downloaded file
+     * @param data - Data to write (must be JSON-compatible)
+     */
+    public static downloadJson(filename: string, data: unknown): void {
+        const blob = new Blob([JSON.stringify(data)], {
+            type: "application/json",
+        });
+        const url = URL.createObjectURL(blob);
+
+        // Trigger the download through a temporary link
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename;
+        link.click();
+
+        setTimeout(() => URL.revokeObjectURL(url), FileTransfer.REVOKE_DELAY);
+    }
+
+    /**
+     * Reads and parses a JSON file chosen by the user
+     *
+     * @param file - The file (e.g. from an <input type="file"> element)
+     * @returns The parsed content
+     */
+    public static async readJson(file: File): Promise<unknown> {
+        const text = await file.text();
+        return JSON.parse(text);
+    }
+}
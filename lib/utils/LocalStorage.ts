@@ -0,0 +1,75 @@
+/**
+ * LocalStorage.ts
+ *
+ * This file contains the LocalStorage class, which persists values in the browser's
+ * localStorage and falls back to memory where it cannot be used.
+ */
+
+import { KeyValueStorage } from "../types";
+import { MemoryStorage } from "./MemoryStorage";
+
+/**
+ * LocalStorage Class
+ *
+ * Wraps window.localStorage. When it is missing (server rendering) or throws
+ * (storage disabled, quota exceeded), values are kept in memory instead, so the
+ * game keeps working without saving.
+ */
+export class LocalStorage implements KeyValueStorage {
+    // Used when the browser storage is unavailable
+    private fallback: MemoryStorage = new MemoryStorage();
+
+    /**
+     * Reads a value
+     *
+     * @param key - Key of the value
+     * @returns The value, or null if none is stored
+     */
+    public getItem(key: string): string | null {
+        try {
+            return LocalStorage.getBrowserStorage()?.getItem(key) ??
+                this.fallback.getItem(key);
+        } catch (error) {
+            console.warn("Could not read from localStorage:", error);
+            return this.fallback.getItem(key);
+        }
+    }
+
+    /**
+     * Stores a value, replacing the previous one
+     *
+     * @param key - Key of the value
+     * @param value - Value to store
+     */
+    public setItem(key: string, value: string): void {
+        this.fallback.setItem(key, value);
+        try {
+            LocalStorage.getBrowserStorage()?.setItem(key, value);
+        } catch (error) {
+            console.warn("Could not write to localStorage:", error);
+        }
+    }
+
+    /**
+     * Removes a value
+     *
+     * @param key - Key of the value
+     */
+    public removeItem(key: string): void {
+        this.fallback.removeItem(key);
+        try {
+            LocalStorage.getBrowserStorage()?.removeItem(key);
+        } catch (error) {
+            console.warn("Could not write to localStorage:", error);
+        }
+    }
+
+    /**
+     * Gets the browser storage, if any
+     *
+     * @returns window.localStorage, or null outside the browser
+     */
+    private static getBrowserStorage(): Storage | null {
+        return typeof window === "undefined" ? null : window.localStorage;
+    }
+}
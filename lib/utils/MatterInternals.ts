@@ -0,0 +1,138 @@
+/**
+ * MatterInternals.ts
+ *
+ * This file contains the MatterInternals class, the only place that reaches into
+ * undocumented Matter.js internals. Restoring a world exactly needs a few of them
+ * (the cached body list and the collision pair collection), which no public API
+ * exposes.
+ *
+ * Written against matter-js 0.20.0. Check every method here when upgrading.
+ */
+
+import Matter from "matter-js";
+
+// The engine's pair collection (typed as `any` in the Matter.js typings)
+interface PairsCollection {
+    table: Record<string, Matter.Pair>;
+    list: Matter.Pair[];
+}
+
+// Pair properties that Matter.js uses but does not declare in its types
+type PairInternals = Matter.Pair & {
+    contactCount: number;
+};
+
+/**
+ * MatterInternals Class
+ *
+ * Static helpers wrapping the internals, so a Matter.js upgrade that changes them
+ * breaks in one file. A warning is logged once if another Matter.js version is
+ * loaded.
+ */
+export class MatterInternals {
+    // Matter.js version these helpers were written for
+    public static readonly MATTER_VERSION = "0.20.0";
+
+    // Whether the version was checked already
+    private static versionChecked = false;
+
+    /**
+     * Marks a composite as modified, so its cached body list is rebuilt
+     * (Composite.setModified is missing from the typings)
+     *
+     * @param composite - The composite, e.g. the world
+     */
+    public static setModified(composite: Matter.Composite): void {
+        MatterInternals.checkVersion();
+        (Matter.Composite as unknown as {
+            setModified(composite: Matter.Composite, isModified: boolean): void;
+        }).setModified(composite, true);
+    }
+
+    /**
+     * Gets the collision pairs of an engine
+     *
+     * @param engine - The Matter.js engine
+     * @returns The pairs, by id and as a list (both must be kept in sync)
+     */
+    public static getPairs(engine: Matter.Engine): PairsCollection {
+        MatterInternals.checkVersion();
+        return engine.pairs as PairsCollection;
+    }
+
+    /**
+     * Gets the number of active contacts of a pair
+     *
+     * @param pair - The collision pair
+     * @returns The contact count
+     */
+    public static getContactCount(pair: Matter.Pair): number {
+        return (pair as PairInternals).contactCount;
+    }
+
+    /**
+     * Builds a collision pair with the same shape as the ones Matter.Pair.create
+     * makes, linked to its collision record
+     *
+     * @param collision - Collision record reused by the detector on the next update
+     * @param state - Contacts and timing of the pair
+     * @returns The collision pair
+     */
+    public static createPair(
+        collision: Matter.Collision,
+        state: {
+            contacts: Matter.Contact[];
+            contactCount: number;
+            separation: number;
+            isActive: boolean;
+            timeCreated: number;
+            timeUpdated: number;
+        },
+    ): Matter.Pair {
+        MatterInternals.checkVersion();
+        const { bodyA, bodyB } = collision;
+
+        const pair = {
+            id: Matter.Pair.id(bodyA, bodyB),
+            bodyA: bodyA,
+            bodyB: bodyB,
+            collision: collision,
+            contacts: state.contacts,
+            contactCount: state.contactCount,
+            separation: state.separation,
+            isActive: state.isActive,
+            isSensor: bodyA.isSensor || bodyB.isSensor,
+            timeCreated: state.timeCreated,
+            timeUpdated: state.timeUpdated,
+            inverseMass: 0,
+            friction: 0,
+            frictionStatic: 0,
+            restitution: 0,
+            slop: 0,
+        } as unknown as Matter.Pair;
+
+        (collision as Matter.Collision & { pair: Matter.Pair }).pair = pair;
+
+        return pair;
+    }
+
+    /**
+     * Warns once if the loaded Matter.js is not the version these helpers were
+     * written for
+     */
+    private static checkVersion(): void {
+        if (MatterInternals.versionChecked) {
+            return;
+        }
+        MatterInternals.versionChecked = true;
+
+        const version = (Matter as unknown as { version?: string }).version;
+        if (version !== MatterInternals.MATTER_VERSION) {
+            console.warn(
+                `MatterInternals was written for matter-js ${MatterInternals.MATTER_VERSION}, ` +
+                    `but ${version ?? "an unknown version"} is loaded: ` +
+                    "restoring snapshots may not work",
+            );
+        }
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * MemoryStorage.ts
+ *
+ * This file contains the MemoryStorage class, a key-value store kept in memory.
+ * It is used where the browser storage is unavailable (server rendering, headless
+ * simulations) and lost when the page is closed.
+ */
+
+import { KeyValueStorage } from "../types";
+
+/**
+ * MemoryStorage Class
+ *
+ * Implements the localStorage API on top of a Map.
+ */
+export class MemoryStorage implements KeyValueStorage {
+    // Stored values, by key
+    private items: Map<string, string> = new Map();
+
+    /**
+     * Reads a value
+     *
+     * @param key - Key of the value
+     * @returns The value, or null if none is stored
+     */
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    /**
+     * Stores a value, replacing the previous one
+     *
+     * @param key - Key of the value
+     * @param value - Value to store
+     */
+    public setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    /**
+     * Removes a value
+     *
+     * @param key - Key of the value
+     */
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * PairSerializer.ts
+ *
+ * This file contains the PairSerializer class, which converts Matter.js collision pairs
+ * to plain JSON-compatible snapshots and back. Pairs carry the contact impulses the
+ * resolver reuses from one update to the next, so they are needed to continue a
+ * restored simulation exactly as the original one.
+ */
+
+import Matter from "matter-js";
+import { PairSnapshot } from "../types";
+import { MatterInternals } from "./MatterInternals";
+
+/**
+ * PairSerializer Class
+ *
+ * Writes the active collision pairs of an engine to snapshots and rebuilds them,
+ * including the contact vertices and the accumulated impulses. Pairs are internal to
+ * Matter.js, so they are read and built through MatterInternals.
+ */
+export class PairSerializer {
+    /**
+     * Writes all collision pairs of an engine to snapshots
+     *
+     * @param engine - The Matter.js engine
+     * @returns The pair snapshots
+     */
+    public static serializeAll(engine: Matter.Engine): PairSnapshot[] {
+        const pairs = MatterInternals.getPairs(engine);
+
+        return pairs.list.map((pair) => ({
+            bodyA: pair.bodyA.id,
+            bodyB: pair.bodyB.id,
+            contacts: pair.contacts.map((contact) => ({
+                vertex: contact.vertex
+                    ? {
+                        body: contact.vertex.body.id,
+                        index: contact.vertex.index,
+                    }
+                    : null,
+                normalImpulse: contact.normalImpulse,
+                tangentImpulse: contact.tangentImpulse,
+            })),
+            contactCount: MatterInternals.getContactCount(pair),
+            separation: pair.separation,
+            isActive: pair.isActive,
+            timeCreated: pair.timeCreated,
+            timeUpdated: pair.timeUpdated,
+        }));
+    }
+
+    /**
+     * Replaces all collision pairs of an engine with the ones from snapshots
+     *
+     * Pairs whose bodies are not in the world are skipped.
+     *
+     * @param engine - The Matter.js engine
+     * @param snapshots - The pair snapshots
+     * @param bodies - All bodies in the world
+     */
+    public static restoreAll(
+        engine: Matter.Engine,
+        snapshots: PairSnapshot[],
+        bodies: Matter.Body[],
+    ): void {
+        const pairs = MatterInternals.getPairs(engine);
+
+        // Index every body part by id
+        const parts = new Map<number, Matter.Body>();
+        for (const body of bodies) {
+            for (const part of body.parts) {
+                parts.set(part.id, part);
+            }
+        }
+
+        Matter.Pairs.clear(engine.pairs);
+
+        for (const snapshot of snapshots) {
+            const bodyA = parts.get(snapshot.bodyA);
+            const bodyB = parts.get(snapshot.bodyB);
+            if (!bodyA || !bodyB) {
+                continue;
+            }
+
+            const pair = PairSerializer.create(snapshot, bodyA, bodyB, parts);
+            pairs.table[pair.id] = pair;
+            pairs.list.push(pair);
+        }
+    }
+
+    /**
+     * Creates a collision pair from a snapshot
+     *
+     * @param snapshot - The pair snapshot
+     * @param bodyA - First body part of the pair
+     * @param bodyB - Second body part of the pair
+     * @param parts - Every body part in the world, by id
+     * @returns The collision pair
+     */
+    private static create(
+        snapshot: PairSnapshot,
+        bodyA: Matter.Body,
+        bodyB: Matter.Body,
+        parts: Map<number, Matter.Body>,
+    ): Matter.Pair {
+        // Collision record reused by the detector on the next update
+        const collision = Matter.Collision.create(bodyA, bodyB);
+
+        const contacts = snapshot.contacts.map((contactSnapshot) => {
+            const vertex = contactSnapshot.vertex
+                ? parts.get(contactSnapshot.vertex.body)
+                    ?.vertices[contactSnapshot.vertex.index]
+                : undefined;
+            const contact = Matter.Contact.create(vertex as Matter.Vertex);
+            contact.normalImpulse = contactSnapshot.normalImpulse;
+            contact.tangentImpulse = contactSnapshot.tangentImpulse;
+            return contact;
+        });
+
+        return MatterInternals.createPair(collision, {
+            contacts: contacts,
+            contactCount: snapshot.contactCount,
+            separation: snapshot.separation,
+            isActive: snapshot.isActive,
+            timeCreated: snapshot.timeCreated,
+            timeUpdated: snapshot.timeUpdated,
+        });
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Random.ts
+ *
+ * This file contains the Random class, a small seeded pseudo-random number generator.
+ * Given the same seed it always produces the same sequence of numbers, which makes
+ * simulations reproducible (e.g. for bug reports, replays and fair score comparison).
+ */
+
+/**
+ * Random Class
+ *
+ * Seeded pseudo-random number generator based on the mulberry32 algorithm.
+ * Its whole state is a single 32-bit integer, so it can be saved and restored
+ * to resume a sequence at any point.
+ */
+export class Random {
+    // The seed the generator was created with
+    private seed: number;
+    // Current internal state (32-bit unsigned integer)
+    private state: number;
+
+    /**
+     * Random constructor
+     *
+     * @param seed - Seed for the sequence (default: a seed derived from the current time)
+     */
+    constructor(seed: number = Random.createSeed()) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Creates a non-deterministic seed, used when none is given
+     *
+     * @returns A 32-bit unsigned integer seed
+     */
+    public static createSeed(): number {
+        return (Date.now() ^ Math.floor(Math.random() * 0xffffffff)) >>> 0;
+    }
+
+    /**
+     * Returns the next number in the sequence
+     *
+     * @returns A number in the range [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns a number between min (inclusive) and max (exclusive)
+     *
+     * @param min - Lower bound
+     * @param max - Upper bound
+     * @returns A number in the range [min, max)
+     */
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /**
+     * Chooses a random item from an array
+     *
+     * @param items - Array to choose from
+     * @returns One of the items
+     */
+    public choose<T>(items: T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    /**
+     * Gets the seed the generator was created with
+     *
+     * @returns The seed
+     */
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    /**
+     * Gets the current internal state
+     *
+     * @returns The state, which can be passed to setState() to resume the sequence
+     */
+    public getState(): number {
+        return this.state;
+    }
+
+    /**
+     * Sets the internal state, resuming the sequence from that point
+     *
+     * @param state - A state previously returned by getState()
+     */
+    public setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
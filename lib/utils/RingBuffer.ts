@@ -0,0 +1,110 @@
+/**
+ * RingBuffer.ts
+ *
+ * This file contains the RingBuffer class, a fixed-capacity list where adding an
+ * item to a full buffer drops the oldest one. It keeps memory bounded for histories
+ * such as the rewind snapshots.
+ */
+
+/**
+ * RingBuffer Class
+ *
+ * Items are stored in a circular array; the newest item can be read and removed,
+ * so the buffer also works as a bounded stack.
+ */
+export class RingBuffer<Item> {
+    // Storage, reused circularly
+    private items: (Item | undefined)[];
+    // Index of the oldest item
+    private start: number = 0;
+    // Number of items stored
+    private count: number = 0;
+
+    /**
+     * RingBuffer constructor
+     *
+     * @param capacity - Maximum number of items kept
+     */
+    constructor(capacity: number) {
+        if (!(capacity >= 1)) {
+            throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+        }
+        this.items = new Array(Math.floor(capacity));
+    }
+
+    /**
+     * Adds an item, dropping the oldest one when the buffer is full
+     *
+     * @param item - The item to add
+     */
+    public push(item: Item): void {
+        const capacity = this.items.length;
+        this.items[(this.start + this.count) % capacity] = item;
+
+        if (this.count < capacity) {
+            this.count++;
+        } else {
+            this.start = (this.start + 1) % capacity;
+        }
+    }
+
+    /**
+     * Removes and returns the newest item
+     *
+     * @returns The newest item, or undefined if the buffer is empty
+     */
+    public pop(): Item | undefined {
+        if (this.count === 0) {
+            return undefined;
+        }
+
+        const index = (this.start + this.count - 1) % this.items.length;
+        const item = this.items[index];
+        this.items[index] = undefined;
+        this.count--;
+        return item;
+    }
+
+    /**
+     * Returns the newest item without removing it
+     *
+     * @returns The newest item, or undefined if the buffer is empty
+     */
+    public peek(): Item | undefined {
+        if (this.count === 0) {
+            return undefined;
+        }
+        return this.items[(this.start + this.count - 1) % this.items.length];
+    }
+
+    /**
+     * Gets the items, from the oldest to the newest
+     *
+     * @returns A new array of the items
+     */
+    public toArray(): Item[] {
+        const result: Item[] = [];
+        for (let i = 0; i < this.count; i++) {
+            result.push(this.items[(this.start + i) % this.items.length] as Item);
+        }
+        return result;
+    }
+
+    /**
+     * Gets the number of items stored
+     *
+     * @returns The number of items
+     */
+    public size(): number {
+        return this.count;
+    }
+
+    /**
+     * Removes every item
+     */
+    public clear(): void {
+        this.items.fill(undefined);
+        this.start = 0;
+        this.count = 0;
+    }
+}